@@ -0,0 +1,302 @@
+import { MOCK_COMPLETIONS } from '../backend';
+import { InferenceWorker } from '../inference';
+import { SharedBufferSender } from '../transport';
+import type { ClientMessage, WorkerMessage } from '../types';
+
+/**
+ * Worker running models with the mock backend, recording posted messages.
+ */
+class TestWorker {
+  constructor() {
+    this.worker = new InferenceWorker({
+      webllm: {} as InferenceWorker.IOptions['webllm'],
+      postMessage: message => this.messages.push(message)
+    });
+    this.send({
+      action: 'configure',
+      appConfig: { model_list: [] },
+      backend: 'mock',
+      servers: {},
+      fim: {},
+      vramLimit: 0,
+      idleTimeout: 0
+    });
+  }
+
+  readonly worker: InferenceWorker;
+  readonly messages: WorkerMessage.Message[] = [];
+  readonly counters = new SharedBufferSender();
+
+  send(message: ClientMessage.Message) {
+    void this.worker.handleMessage({ data: message } as MessageEvent);
+  }
+
+  initializeCounters() {
+    this.send(this.counters.initMessage);
+  }
+
+  /**
+   * Request generation in given lane, advancing the counter of the lane.
+   */
+  generate(
+    requestId: string,
+    options: Partial<ClientMessage.IGenerate> = {}
+  ): string[] {
+    const lane = options.lane ?? 0;
+    const counter = (this._counters.get(lane) ?? 0) + 1;
+    this._counters.set(lane, counter);
+    this.counters.send(lane, counter);
+    const idTokens = [...Array(options.generateN ?? 1).keys()].map(
+      i => `${requestId}-${i}`
+    );
+    this.send({
+      action: 'generate',
+      model: 'mock-model',
+      messages: [{ role: 'user', content: 'prompt' }],
+      requestId,
+      priority: 'invoke',
+      idTokens,
+      lane,
+      counter,
+      generateN: idTokens.length,
+      ...options
+    });
+    return idTokens;
+  }
+
+  /**
+   * Cancel requests in given lane, as done by a newer request.
+   */
+  cancel(lane: number) {
+    const counter = (this._counters.get(lane) ?? 0) + 1;
+    this._counters.set(lane, counter);
+    this.counters.send(lane, counter);
+  }
+
+  /**
+   * Messages about given request.
+   */
+  replies(requestId: string): WorkerMessage.Message[] {
+    return this.messages.filter(
+      message => 'requestId' in message && message.requestId === requestId
+    );
+  }
+
+  /**
+   * Wait until the request completed, failed or was interrupted.
+   */
+  async finished(requestId: string): Promise<WorkerMessage.Message[]> {
+    await waitFor(() =>
+      this.replies(requestId).some(
+        message =>
+          ('status' in message &&
+            (message.status === 'exception' ||
+              message.status === 'interrupted')) ||
+          ('done' in message && message.done)
+      )
+    );
+    // candidates are completed after the final statistics
+    await sleep(0);
+    return this.replies(requestId);
+  }
+
+  private _counters: Map<number, number> = new Map();
+}
+
+function sleep(milliseconds: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, milliseconds));
+}
+
+async function waitFor(condition: () => boolean, timeout = 5000) {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) {
+      throw Error('Timed out waiting for condition');
+    }
+    await sleep(5);
+  }
+}
+
+/**
+ * Final output of each candidate.
+ */
+function completed(replies: WorkerMessage.Message[]): Record<string, string> {
+  return Object.fromEntries(
+    replies
+      .filter(
+        (message): message is WorkerMessage.IComplete =>
+          'status' in message && message.status === 'complete'
+      )
+      .map(message => [message.idToken, message.output])
+  );
+}
+
+function statuses(replies: WorkerMessage.Message[]): string[] {
+  return replies.map(message =>
+    'status' in message ? (message.status as string) : ''
+  );
+}
+
+describe('InferenceWorker', () => {
+  let worker: TestWorker;
+
+  beforeEach(() => {
+    worker = new TestWorker();
+    worker.initializeCounters();
+  });
+
+  describe('generation', () => {
+    it('should stream a candidate and complete it', async () => {
+      const [token] = worker.generate('R1');
+      const replies = await worker.finished('R1');
+
+      const updates = replies
+        .filter(
+          (message): message is WorkerMessage.IUpdate =>
+            'status' in message && message.status === 'update'
+        )
+        .map(message => message.output);
+      expect(updates.length).toBeGreaterThan(1);
+      // each update extends the previous one
+      updates.reduce((previous, output) => {
+        expect(output.startsWith(previous)).toBe(true);
+        return output;
+      });
+      expect(completed(replies)).toEqual({
+        [token]: MOCK_COMPLETIONS[0]
+      });
+    });
+
+    it('should report statistics of the generation', async () => {
+      worker.generate('R1');
+      const replies = await worker.finished('R1');
+      const stats = replies.filter(
+        (message): message is WorkerMessage.IGenerationStats =>
+          'status' in message && message.status === 'stats'
+      );
+      const last = stats[stats.length - 1];
+      expect(last.done).toBe(true);
+      expect(last.completionTokens).toBe([...MOCK_COMPLETIONS[0]].length);
+      expect(last.timeToFirstToken).not.toBeNull();
+    });
+
+    it('should generate `n` candidates', async () => {
+      const tokens = worker.generate('R1', { generateN: 3 });
+      const replies = await worker.finished('R1');
+      expect(completed(replies)).toEqual({
+        [tokens[0]]: MOCK_COMPLETIONS[0],
+        [tokens[1]]: MOCK_COMPLETIONS[1],
+        [tokens[2]]: MOCK_COMPLETIONS[0]
+      });
+    });
+
+    it('should truncate candidates to `max_gen_len` tokens', async () => {
+      const tokens = worker.generate('R1', { generateN: 2, max_gen_len: 4 });
+      const replies = await worker.finished('R1');
+      expect(completed(replies)).toEqual({
+        [tokens[0]]: 'mock',
+        [tokens[1]]: 'anot'
+      });
+    });
+
+    it('should truncate candidates at `stop` sequences', async () => {
+      const tokens = worker.generate('R1', { generateN: 2, stop: [' sug'] });
+      const replies = await worker.finished('R1');
+      expect(completed(replies)).toEqual({
+        [tokens[0]]: 'mock',
+        [tokens[1]]: 'another mock'
+      });
+    });
+
+    it('should load the model before the first generation', async () => {
+      worker.generate('R1');
+      await worker.finished('R1');
+      const all = statuses(worker.messages);
+      expect(all).toEqual(
+        expect.arrayContaining(['initiate', 'progress', 'done', 'ready'])
+      );
+      expect(all.indexOf('ready')).toBeLessThan(all.indexOf('update'));
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should interrupt generation superseded in its lane', async () => {
+      worker.generate('R1');
+      await waitFor(() => statuses(worker.replies('R1')).includes('update'));
+      worker.cancel(0);
+      const replies = await worker.finished('R1');
+      expect(statuses(replies)).toContain('interrupted');
+      expect(statuses(replies)).not.toContain('complete');
+    });
+
+    it('should skip queued requests superseded before they run', async () => {
+      worker.generate('R1');
+      worker.generate('R2');
+      const first = await worker.finished('R1');
+      const second = await worker.finished('R2');
+      expect(statuses(first)).toEqual(['interrupted']);
+      expect(Object.values(completed(second))).toEqual([MOCK_COMPLETIONS[0]]);
+    });
+
+    it('should not interrupt requests in other lanes', async () => {
+      const [token] = worker.generate('R1', { lane: 0 });
+      worker.generate('R2', { lane: 1 });
+      const replies = await worker.finished('R1');
+      await worker.finished('R2');
+      expect(completed(replies)).toEqual({
+        [token]: MOCK_COMPLETIONS[0]
+      });
+    });
+  });
+
+  describe('protocol', () => {
+    it('should report a failed loading once', async () => {
+      const fetch = jest.fn().mockResolvedValue({
+        ok: false,
+        status: 500,
+        statusText: 'Internal Server Error'
+      });
+      Object.assign(globalThis, { fetch });
+      worker.send({
+        action: 'configure',
+        appConfig: { model_list: [] },
+        backend: 'mock',
+        servers: { 'mock-model': { baseUrl: 'http://localhost:1/v1' } },
+        fim: {},
+        vramLimit: 0,
+        idleTimeout: 0
+      });
+      worker.send({ action: 'initializeModel', model: 'mock-model' });
+      worker.generate('R1');
+      await waitFor(() => statuses(worker.messages).includes('exception'));
+      await sleep(10);
+
+      const exceptions = worker.messages.filter(
+        (message): message is WorkerMessage.IException =>
+          'status' in message && message.status === 'exception'
+      );
+      expect(exceptions).toEqual([
+        expect.objectContaining({
+          model: 'mock-model',
+          error: expect.objectContaining({ code: 'load-failed' })
+        })
+      ]);
+      expect(exceptions[0].requestId).toBeUndefined();
+      Object.assign(globalThis, { fetch: undefined });
+    });
+
+    it('should fail generation requested before the counters', async () => {
+      const uninitialized = new TestWorker();
+      uninitialized.generate('R1');
+      const replies = await uninitialized.finished('R1');
+      expect(replies).toEqual([
+        expect.objectContaining({
+          status: 'exception',
+          requestId: 'R1',
+          idTokens: ['R1-0'],
+          error: expect.objectContaining({ code: 'generation-failed' })
+        })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import { Dialog, Notification, showDialog } from '@jupyterlab/apputils';
+import type { Cell, ICodeCellModel } from '@jupyterlab/cells';
+import { PathExt } from '@jupyterlab/coreutils';
+import type * as nbformat from '@jupyterlab/nbformat';
+import type { NotebookPanel } from '@jupyterlab/notebook';
+import type { ChatCompletionMessageParam } from '@mlc-ai/web-llm';
+import type { ChatPanel } from './chat';
+import { diffLines, DiffView } from './diff';
+import { buildNotebookContext, notebookLanguage, stripAnsi } from './notebook';
+import type { IPromptTemplate } from './prompts';
+import { CHARACTER_MEASURE } from './tokenizer';
+import type { IWebLLMEngine } from './tokens';
+
+/**
+ * Action performed on a notebook cell.
+ */
+export type CellAction = 'explain' | 'document' | 'fix';
+
+/**
+ * Values substituted for placeholders in cell action templates.
+ */
+export interface IActionVariables {
+  language: string;
+  /**
+   * Source of the cell.
+   */
+  source: string;
+  /**
+   * Preceding cells formatted as a code block (with heading), or empty string.
+   */
+  context: string;
+  /**
+   * Error raised by the cell, or empty string.
+   */
+  error: string;
+}
+
+/**
+ * Templates of messages for cell actions; these can use `{language}`,
+ * `{source}`, `{context}` and `{error}` placeholders.
+ */
+export const DEFAULT_ACTION_TEMPLATES: Record<CellAction, IPromptTemplate> = {
+  explain: {
+    system:
+      'You are an expert {language} programmer explaining notebook code to a colleague. Answer concisely in Markdown.',
+    user: '{context}Explain what this cell does:\n\n```{language}\n{source}\n```'
+  },
+  document: {
+    system:
+      'You are an expert {language} programmer. Reply only with the complete edited cell in a single fenced code block, without any explanation.',
+    user: 'Add docstrings and comments to this cell without changing its behaviour:\n\n```{language}\n{source}\n```'
+  },
+  fix: {
+    system:
+      'You are an expert {language} programmer. Reply only with the complete corrected cell in a single fenced code block, without any explanation.',
+    user: '{context}This cell:\n\n```{language}\n{source}\n```\n\nfailed with:\n\n```\n{error}\n```\n\nFix the cell.'
+  }
+};
+
+/**
+ * Rough number of characters per token, used to size the context as the
+ * tokenizer of the model may not be loaded yet.
+ */
+const CHARACTERS_PER_TOKEN = 4;
+
+const ACTION_LABELS: Record<CellAction, string> = {
+  explain: 'Explaining cell',
+  document: 'Adding docstrings and comments',
+  fix: 'Fixing error'
+};
+
+/**
+ * Explains, documents and fixes notebook cells; explanations are shown
+ * in the chat panel, while edits are proposed as a diff to accept or reject.
+ */
+export class CellActions {
+  constructor(protected options: CellActions.IOptions) {}
+
+  /**
+   * Whether the action can be performed on given cell.
+   */
+  isEnabled(action: CellAction, cell: Cell | null): boolean {
+    if (!cell || cell.model.type !== 'code') {
+      return false;
+    }
+    return action !== 'fix' || Private.errorText(cell) !== null;
+  }
+
+  /**
+   * Perform action on the active cell of the notebook.
+   */
+  async run(action: CellAction, notebook: NotebookPanel): Promise<void> {
+    const cell = notebook.content.activeCell;
+    if (!cell || !this.isEnabled(action, cell)) {
+      return;
+    }
+    const model =
+      this.options.model(cell.model.mimeType) ??
+      this.options.engine.defaultModel();
+    if (!model) {
+      Notification.warning('Select a model in the Inline Completer settings');
+      return;
+    }
+    const source = cell.model.sharedModel.getSource();
+    const template =
+      this.options.templates()[action] ?? DEFAULT_ACTION_TEMPLATES[action];
+    const language = notebookLanguage(notebook.content.model!);
+    const variables: IActionVariables = {
+      language,
+      source,
+      context:
+        action === 'document' ? '' : await this._context(notebook, language),
+      error: Private.errorText(cell) ?? ''
+    };
+    const messages = Private.renderMessages(template, variables);
+
+    if (action === 'explain') {
+      void this.options.chat.start({
+        system: messages[0].content as string,
+        content: messages[1].content as string,
+        question: 'Explain this cell',
+        note: `cell ${notebook.content.activeCellIndex + 1} of ${PathExt.basename(
+          notebook.context.localPath
+        )}`,
+        model
+      });
+      this.options.showChat();
+      return;
+    }
+    await this._proposeEdit(action, cell, messages, model);
+  }
+
+  private async _proposeEdit(
+    action: CellAction,
+    cell: Cell,
+    messages: ChatCompletionMessageParam[],
+    model: string
+  ) {
+    const source = cell.model.sharedModel.getSource();
+    const generation = this.options.engine.chat({ messages, model });
+    const notification = Notification.emit(
+      `${ACTION_LABELS[action]} with ${model}…`,
+      'in-progress',
+      {
+        autoClose: false,
+        actions: [{ label: 'Cancel', callback: () => generation.cancel() }]
+      }
+    );
+    let reply: string;
+    try {
+      [reply] = await generation.result;
+    } catch (e) {
+      Notification.update({
+        id: notification,
+        message: `${ACTION_LABELS[action]} failed: ${
+          e instanceof Error ? e.message : e
+        }`,
+        type: 'error',
+        autoClose: 5000
+      });
+      return;
+    }
+    Notification.dismiss(notification);
+
+    const proposed = Private.extractCode(reply);
+    if (!proposed.trim() || proposed.trim() === source.trim()) {
+      Notification.info('The model did not propose any changes', {
+        autoClose: 3000
+      });
+      return;
+    }
+    const result = await showDialog({
+      title: ACTION_LABELS[action],
+      body: new DiffView(diffLines(source, proposed)),
+      buttons: [
+        Dialog.cancelButton({ label: 'Reject' }),
+        Dialog.okButton({ label: 'Accept' })
+      ]
+    });
+    if (!result.button.accept) {
+      return;
+    }
+    if (cell.isDisposed || cell.model.sharedModel.getSource() !== source) {
+      Notification.warning('The cell was modified; changes were not applied');
+      return;
+    }
+    cell.model.sharedModel.setSource(proposed);
+  }
+
+  /**
+   * Format cells preceding the active cell.
+   */
+  private async _context(
+    notebook: NotebookPanel,
+    language: string
+  ): Promise<string> {
+    const context = await buildNotebookContext(notebook.content, {
+      budget: this.options.contextBudget() * CHARACTERS_PER_TOKEN,
+      measure: CHARACTER_MEASURE,
+      includeOutputs: true
+    });
+    return context
+      ? 'Preceding cells:\n\n```' + language + '\n' + context + '```\n\n'
+      : '';
+  }
+}
+
+export namespace CellActions {
+  export interface IOptions {
+    engine: IWebLLMEngine;
+    chat: ChatPanel;
+    /**
+     * Reveal the chat panel.
+     */
+    showChat: () => void;
+    /**
+     * Get the model used for cells of given mimetype, if any.
+     */
+    model: (mimeType: string) => string | null;
+    /**
+     * Get templates of messages for actions.
+     */
+    templates: () => Partial<Record<CellAction, IPromptTemplate>>;
+    /**
+     * Number of tokens available for the preceding cells.
+     */
+    contextBudget: () => number;
+  }
+}
+
+namespace Private {
+  /**
+   * Substitute placeholders in the template.
+   */
+  export function renderMessages(
+    template: IPromptTemplate,
+    variables: IActionVariables
+  ): ChatCompletionMessageParam[] {
+    const render = (text: string) =>
+      text.replace(
+        /\{(language|source|context|error)\}/g,
+        (_match, name: keyof IActionVariables) => variables[name]
+      );
+    return [
+      { role: 'system', content: render(template.system) },
+      { role: 'user', content: render(template.user) }
+    ];
+  }
+
+  /**
+   * Get text of the error raised by a code cell, or `null` if it did not fail.
+   */
+  export function errorText(cell: Cell): string | null {
+    const outputs = (cell.model as ICodeCellModel).outputs?.toJSON() ?? [];
+    const error = outputs.find(output => output.output_type === 'error') as
+      nbformat.IError | undefined;
+    if (!error) {
+      return null;
+    }
+    const traceback = error.traceback.join('\n');
+    // tracebacks are colored with ANSI escape sequences
+    const plain = stripAnsi(traceback);
+    return plain || `${error.ename}: ${error.evalue}`;
+  }
+
+  /**
+   * Extract code from the first fenced block of the reply, or the whole
+   * reply if it has no fenced block.
+   */
+  export function extractCode(reply: string): string {
+    const block = reply.match(/```[\w+-]*[^\S\n]*\n([\s\S]*?)(\n```|$)/);
+    return (block ? block[1] : reply).replace(/\s+$/, '');
+  }
+}
@@ -0,0 +1,421 @@
+import type {
+  AppConfig,
+  ChatCompletionChunk,
+  ChatCompletionRequestStreaming,
+  CompletionUsage,
+  InitProgressReport
+} from '@mlc-ai/web-llm';
+import { ErrorCode, ModelError } from './errors';
+import { formatFim, IFimTokens, IInfill } from './models';
+
+/**
+ * Name of an inference backend which can be selected in settings.
+ */
+export type BackendName = 'web-llm' | 'mock';
+
+/**
+ * Server exposing OpenAI-compatible chat completions API, such as
+ * llama.cpp server, Ollama or vLLM.
+ */
+export interface IServerEndpoint {
+  /**
+   * Base URL of the API, e.g. `http://localhost:11434/v1`.
+   */
+  baseUrl: string;
+  apiKey?: string;
+  /**
+   * Name of the model on the server; defaults to the model identifier.
+   */
+  model?: string;
+}
+
+/**
+ * Chunk of streamed completion candidates; servers (and newer versions of
+ * web-llm) report token usage in the last chunk.
+ */
+export interface IChatCompletionChunk extends ChatCompletionChunk {
+  usage?: CompletionUsage;
+}
+
+/**
+ * Request for streamed completion candidates.
+ */
+export interface IGenerationRequest extends ChatCompletionRequestStreaming {
+  /**
+   * Text around the cursor for models loaded for fill-in-the-middle; the
+   * prompt is then formatted with the sentinel tokens and `messages` is ignored.
+   */
+  infill?: IInfill;
+}
+
+/**
+ * Inference engine running a single model in the worker.
+ */
+export interface IInferenceBackend {
+  /**
+   * Download (if needed) and initialize the model.
+   */
+  load(options: IInferenceBackend.ILoadOptions): Promise<void>;
+  /**
+   * Stream chunks of chat completion candidates.
+   */
+  generate(
+    request: IGenerationRequest
+  ): Promise<AsyncIterable<IChatCompletionChunk>>;
+  /**
+   * Stop the running generation.
+   */
+  interrupt(): void;
+  /**
+   * Release resources held by the model.
+   */
+  unload(): Promise<void>;
+  /**
+   * Encode text into token identifiers.
+   */
+  tokenize(text: string): Promise<number[]>;
+  /**
+   * Decode token identifiers into text.
+   */
+  detokenize(ids: number[]): Promise<string>;
+  /**
+   * Size of the context window of the model in tokens, or `null` if unbounded.
+   */
+  contextWindowSize(): Promise<number | null>;
+}
+
+export namespace IInferenceBackend {
+  export interface ILoadOptions {
+    model: string;
+    appConfig?: AppConfig;
+    /**
+     * Fill-in-the-middle tokens if the model should be loaded for infilling.
+     */
+    fim?: IFimTokens;
+    /**
+     * Callback reporting loading progress; loading stops if it throws.
+     */
+    onProgress: (report: InitProgressReport) => void;
+  }
+}
+
+/**
+ * Suggestions streamed by the mock backend, used in turn for consecutive candidates.
+ */
+export const MOCK_COMPLETIONS = ['mock suggestion', 'another mock suggestion'];
+
+/**
+ * Deterministic backend which requires neither WebGPU nor downloads, allowing
+ * to exercise the provider and worker protocol headlessly (e.g. on CI).
+ *
+ * Every character is a token; candidates stream `MOCK_COMPLETIONS`
+ * regardless of the prompt (or infill), truncated by `max_gen_len` and `stop`.
+ */
+export class MockBackend implements IInferenceBackend {
+  constructor(options: MockBackend.IOptions = {}) {
+    this._tokenDelay = options.tokenDelay ?? 10;
+  }
+
+  async load(options: IInferenceBackend.ILoadOptions): Promise<void> {
+    options.onProgress({
+      progress: 0.5,
+      timeElapsed: 0,
+      text: `Fetching param cache[mock]: ${options.model}`
+    });
+    options.onProgress({
+      progress: 1,
+      timeElapsed: 0,
+      text: `Loading GPU shader modules[mock]: ${options.model}`
+    });
+    this._loaded = true;
+  }
+
+  async generate(
+    request: IGenerationRequest
+  ): Promise<AsyncIterable<ChatCompletionChunk>> {
+    if (!this._loaded) {
+      throw Error('Mock model is not loaded');
+    }
+    this._interrupted = false;
+    return this._stream(request);
+  }
+
+  interrupt() {
+    this._interrupted = true;
+  }
+
+  async unload(): Promise<void> {
+    this._loaded = false;
+  }
+
+  async tokenize(text: string): Promise<number[]> {
+    return [...text].map(character => character.codePointAt(0)!);
+  }
+
+  async detokenize(ids: number[]): Promise<string> {
+    return String.fromCodePoint(...ids);
+  }
+
+  async contextWindowSize(): Promise<number | null> {
+    return 4096;
+  }
+
+  private async *_stream(
+    request: ChatCompletionRequestStreaming
+  ): AsyncGenerator<ChatCompletionChunk> {
+    const texts = [...Array(request.n ?? 1).keys()].map(i =>
+      Private.truncate(MOCK_COMPLETIONS[i % MOCK_COMPLETIONS.length], request)
+    );
+    const steps = Math.max(...texts.map(text => text.length));
+    // the last chunk has no content, as in web-llm
+    for (let step = 0; step <= steps; step++) {
+      await new Promise(resolve => setTimeout(resolve, this._tokenDelay));
+      if (this._interrupted) {
+        return;
+      }
+      yield {
+        id: 'mock',
+        object: 'chat.completion.chunk',
+        created: 0,
+        model: 'mock',
+        choices: texts.map((text, index) => ({
+          index,
+          delta: step < text.length ? { content: text[step] } : {},
+          finish_reason: step < text.length ? null : 'stop'
+        }))
+      };
+    }
+  }
+
+  private _interrupted = false;
+  private _loaded = false;
+  private _tokenDelay: number;
+}
+
+export namespace MockBackend {
+  export interface IOptions {
+    /**
+     * Delay between consecutive tokens in milliseconds.
+     */
+    tokenDelay?: number;
+  }
+}
+
+/**
+ * Backend streaming chat completions from an OpenAI-compatible server
+ * using server-sent events; fill-in-the-middle prompts are streamed from
+ * the (legacy) completions endpoint, which takes the prompt verbatim.
+ *
+ * Tokenization is not part of the OpenAI API, so token counts fall back
+ * to the character-based estimate.
+ */
+export class OpenAIBackend implements IInferenceBackend {
+  constructor(protected endpoint: IServerEndpoint) {}
+
+  async load(options: IInferenceBackend.ILoadOptions): Promise<void> {
+    this._model = this.endpoint.model || options.model;
+    this._fim = options.fim ?? null;
+    options.onProgress({
+      progress: 0,
+      timeElapsed: 0,
+      text: `Connecting to ${this.endpoint.baseUrl}`
+    });
+    const start = performance.now();
+    const response = await fetch(this._url('models'), {
+      headers: this._headers()
+    });
+    if (!response.ok) {
+      throw new ModelError(
+        Private.errorCode(response.status, 'load-failed'),
+        `Server at ${this.endpoint.baseUrl} responded with ${response.status} ${response.statusText}`
+      );
+    }
+    options.onProgress({
+      progress: 1,
+      timeElapsed: (performance.now() - start) / 1000,
+      text: `Connected to ${this.endpoint.baseUrl}`
+    });
+  }
+
+  async generate(
+    request: IGenerationRequest
+  ): Promise<AsyncIterable<IChatCompletionChunk>> {
+    // `max_gen_len` is specific to web-llm
+    const { max_gen_len, infill, messages, ...body } = request;
+    if (infill && !this._fim) {
+      throw new ModelError(
+        'bad-config',
+        `${this._model} was not loaded for fill-in-the-middle`
+      );
+    }
+    this._controller = new AbortController();
+    const response = await fetch(
+      this._url(infill ? 'completions' : 'chat/completions'),
+      {
+        method: 'POST',
+        headers: { ...this._headers(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...body,
+          ...(infill
+            ? { prompt: formatFim(this._fim!, infill.prefix, infill.suffix) }
+            : { messages }),
+          model: this._model,
+          max_tokens: max_gen_len
+        }),
+        signal: this._controller.signal
+      }
+    );
+    if (!response.ok || !response.body) {
+      throw new ModelError(
+        Private.errorCode(response.status, 'generation-failed'),
+        `Server at ${this.endpoint.baseUrl} responded with ${response.status} ${response.statusText}: ${await response.text()}`
+      );
+    }
+    if (infill) {
+      return Private.chatChunks(
+        Private.readEvents<ICompletionChunk>(response.body)
+      );
+    }
+    return Private.readEvents<IChatCompletionChunk>(response.body);
+  }
+
+  interrupt() {
+    this._controller?.abort();
+    this._controller = null;
+  }
+
+  async unload(): Promise<void> {
+    this.interrupt();
+  }
+
+  async tokenize(text: string): Promise<number[]> {
+    throw Error('Tokenization is not supported by OpenAI-compatible servers');
+  }
+
+  async detokenize(ids: number[]): Promise<string> {
+    throw Error('Tokenization is not supported by OpenAI-compatible servers');
+  }
+
+  async contextWindowSize(): Promise<number | null> {
+    return null;
+  }
+
+  private _url(path: string): string {
+    return this.endpoint.baseUrl.replace(/\/+$/, '') + '/' + path;
+  }
+
+  private _headers(): Record<string, string> {
+    return this.endpoint.apiKey
+      ? { Authorization: `Bearer ${this.endpoint.apiKey}` }
+      : {};
+  }
+
+  private _controller: AbortController | null = null;
+  private _fim: IFimTokens | null = null;
+  private _model = '';
+}
+
+/**
+ * Chunk streamed by the completions endpoint of OpenAI-compatible servers.
+ */
+interface ICompletionChunk {
+  id: string;
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    text: string;
+    finish_reason: ChatCompletionChunk.Choice['finish_reason'];
+  }[];
+  usage?: CompletionUsage;
+}
+
+namespace Private {
+  /**
+   * Get code of error for HTTP status of the server response; client errors
+   * (such as wrong API key or model name) indicate invalid configuration.
+   */
+  export function errorCode(status: number, fallback: ErrorCode): ErrorCode {
+    return status >= 400 && status < 500 && status !== 429
+      ? 'bad-config'
+      : fallback;
+  }
+
+  /**
+   * Parse chunks from a stream of server-sent events.
+   */
+  export async function* readEvents<T>(
+    stream: ReadableStream<Uint8Array>
+  ): AsyncGenerator<T> {
+    const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          return;
+        }
+        buffer += value;
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop()!;
+        for (const event of events) {
+          for (const line of event.split(/\r?\n/)) {
+            if (!line.startsWith('data:')) {
+              continue;
+            }
+            const data = line.slice(5).trim();
+            if (data === '[DONE]') {
+              return;
+            }
+            yield JSON.parse(data);
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Convert chunks of the completions endpoint to chat completion chunks,
+   * so that infilling is streamed like any other generation.
+   */
+  export async function* chatChunks(
+    chunks: AsyncIterable<ICompletionChunk>
+  ): AsyncGenerator<IChatCompletionChunk> {
+    for await (const chunk of chunks) {
+      yield {
+        id: chunk.id,
+        object: 'chat.completion.chunk',
+        created: chunk.created,
+        model: chunk.model,
+        choices: chunk.choices.map(choice => ({
+          index: choice.index,
+          delta: choice.text ? { content: choice.text } : {},
+          finish_reason: choice.finish_reason
+        })),
+        usage: chunk.usage
+      };
+    }
+  }
+
+  /**
+   * Apply token limit and stop sequences of the request.
+   */
+  export function truncate(
+    text: string,
+    request: ChatCompletionRequestStreaming
+  ): string {
+    if (request.max_gen_len) {
+      text = text.slice(0, request.max_gen_len);
+    }
+    const stop = request.stop;
+    for (const sequence of typeof stop === 'string' ? [stop] : (stop ?? [])) {
+      const index = text.indexOf(sequence);
+      if (index !== -1) {
+        text = text.slice(0, index);
+      }
+    }
+    return text;
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Suggestion recorded in the cache, possibly still being generated.
+ */
+export interface ICachedCandidate {
+  /**
+   * Text generated so far.
+   */
+  text: string;
+  /**
+   * Whether generation of the candidate has finished.
+   */
+  done: boolean;
+  /**
+   * Token of the stream which generates the candidate.
+   */
+  token: string;
+}
+
+/**
+ * Candidate matching a lookup, after skipping the text typed since it was requested.
+ */
+export interface ICacheHit {
+  candidate: ICachedCandidate;
+  /**
+   * Number of characters of the candidate already typed by the user.
+   */
+  skip: number;
+}
+
+/**
+ * Least-recently-used cache of suggestions which remain valid when the user
+ * types the beginning of a suggestion (typed-through extension).
+ */
+export class CompletionCache {
+  constructor(options: CompletionCache.IOptions) {
+    this._maxSize = options.maxSize;
+  }
+
+  /**
+   * Maximum number of requests kept in the cache; zero disables the cache.
+   */
+  get maxSize(): number {
+    return this._maxSize;
+  }
+  set maxSize(value: number) {
+    this._maxSize = value;
+    this._evict();
+  }
+
+  /**
+   * Record a request for which candidates streamed with given `tokens` will be generated.
+   */
+  add(key: CompletionCache.IKey, tokens: string[]) {
+    if (this._maxSize <= 0) {
+      return;
+    }
+    const entry: Private.IEntry = {
+      ...key,
+      candidates: tokens.map(token => ({ text: '', done: false, token }))
+    };
+    for (const candidate of entry.candidates) {
+      this._byToken.set(candidate.token, { entry, candidate });
+    }
+    this._entries.add(entry);
+    this._evict();
+  }
+
+  /**
+   * Update text of candidate streamed with given `token`.
+   */
+  update(token: string, text: string, done: boolean) {
+    const record = this._byToken.get(token);
+    if (!record) {
+      return;
+    }
+    record.candidate.text = text;
+    record.candidate.done = done;
+    if (done) {
+      this._byToken.delete(token);
+    }
+  }
+
+  /**
+   * Remove candidate which will not be completed (e.g. because it was interrupted).
+   */
+  discard(token: string) {
+    const record = this._byToken.get(token);
+    if (!record) {
+      return;
+    }
+    this._byToken.delete(token);
+    const candidates = record.entry.candidates;
+    candidates.splice(candidates.indexOf(record.candidate), 1);
+    if (candidates.length === 0) {
+      this._entries.delete(record.entry);
+    }
+  }
+
+  /**
+   * Find candidates which extend the text typed since a matching request.
+   *
+   * Returns `null` if there is no matching candidate.
+   */
+  lookup(key: CompletionCache.IKey): ICacheHit[] | null {
+    const entries = [...this._entries].reverse();
+    for (const entry of entries) {
+      if (
+        entry.model !== key.model ||
+        entry.settingsHash !== key.settingsHash ||
+        entry.suffix !== key.suffix ||
+        !key.prefix.startsWith(entry.prefix)
+      ) {
+        continue;
+      }
+      const typed = key.prefix.slice(entry.prefix.length);
+      const hits = entry.candidates
+        .filter(
+          candidate =>
+            candidate.text.startsWith(typed) &&
+            (!candidate.done || candidate.text.length > typed.length)
+        )
+        .map(candidate => ({ candidate, skip: typed.length }));
+      if (hits.length > 0) {
+        // mark as recently used
+        this._entries.delete(entry);
+        this._entries.add(entry);
+        return hits;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Remove all entries.
+   */
+  clear() {
+    this._entries.clear();
+    this._byToken.clear();
+  }
+
+  private _evict() {
+    while (this._entries.size > Math.max(this._maxSize, 0)) {
+      const oldest = this._entries.values().next().value as Private.IEntry;
+      this._entries.delete(oldest);
+      for (const candidate of oldest.candidates) {
+        this._byToken.delete(candidate.token);
+      }
+    }
+  }
+
+  private _byToken: Map<
+    string,
+    { entry: Private.IEntry; candidate: ICachedCandidate }
+  > = new Map();
+  private _entries: Set<Private.IEntry> = new Set();
+  private _maxSize: number;
+}
+
+export namespace CompletionCache {
+  export interface IOptions {
+    maxSize: number;
+  }
+
+  /**
+   * Identifies requests which can share suggestions.
+   */
+  export interface IKey {
+    model: string;
+    /**
+     * Hash of the settings which affect generation.
+     */
+    settingsHash: string;
+    /**
+     * Document text before the cursor.
+     */
+    prefix: string;
+    /**
+     * Document text after the cursor.
+     */
+    suffix: string;
+  }
+}
+
+namespace Private {
+  export interface IEntry extends CompletionCache.IKey {
+    candidates: ICachedCandidate[];
+  }
+}
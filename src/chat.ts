@@ -0,0 +1,368 @@
+import { Clipboard } from '@jupyterlab/apputils';
+import type { CodeEditor } from '@jupyterlab/codeeditor';
+import type { NotebookPanel } from '@jupyterlab/notebook';
+import {
+  IRenderMime,
+  IRenderMimeRegistry,
+  MimeModel
+} from '@jupyterlab/rendermime';
+import { LabIcon } from '@jupyterlab/ui-components';
+import type { Message } from '@lumino/messaging';
+import { Widget } from '@lumino/widgets';
+import type { ChatCompletionMessageParam } from '@mlc-ai/web-llm';
+import { notebookAsMarkdown, notebookLanguage } from './notebook';
+import type { IWebLLMEngine } from './tokens';
+
+/**
+ * Part of the current document sent along with a chat message.
+ */
+export type ChatContext = 'none' | 'cell' | 'selection' | 'notebook';
+
+const CONTEXT_LABELS: Record<ChatContext, string> = {
+  none: 'No context',
+  cell: 'Active cell',
+  selection: 'Selection',
+  notebook: 'Notebook'
+};
+
+const SYSTEM_PROMPT =
+  'You are a helpful assistant for programming and data analysis in JupyterLab. Answer concisely in Markdown and put code in fenced code blocks annotated with the language.';
+
+/**
+ * Maximum number of previous messages sent with each message.
+ */
+const MAX_HISTORY = 10;
+
+const chatIcon = new LabIcon({
+  name: '@jupyterlab/web-llm-completer:chat',
+  svgstr:
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="16"><path class="jp-icon3" fill="#616161" d="M20 2H4a2 2 0 0 0-2 2v18l4-4h14a2 2 0 0 0 2-2V4a2 2 0 0 0-2-2zm0 14H5.17L4 17.17V4h16v12z"/></svg>'
+});
+
+/**
+ * Sidebar panel for multi-turn conversations with the model selected for
+ * text, optionally including the active cell, selection or notebook.
+ *
+ * Replies are streamed and rendered as Markdown; code blocks can be copied
+ * or inserted at the cursor of the active editor.
+ */
+export class ChatPanel extends Widget {
+  constructor(protected options: ChatPanel.IOptions) {
+    super();
+    this.id = 'jp-web-llm-chat';
+    this.addClass('jp-web-llm-chat');
+    this.title.icon = chatIcon;
+    this.title.caption = 'Chat with In-browser Language Model';
+
+    const header = document.createElement('div');
+    header.className = 'jp-web-llm-chat-header';
+    const title = document.createElement('h3');
+    title.textContent = 'Chat';
+    this._modelSelect.className = 'jp-mod-styled';
+    this._modelSelect.title = 'Model';
+    header.append(
+      title,
+      this._modelSelect,
+      this._button('New chat', () => this.clear())
+    );
+
+    this._messages.className = 'jp-web-llm-chat-messages';
+
+    const footer = document.createElement('div');
+    footer.className = 'jp-web-llm-chat-footer';
+    this._contextSelect.className = 'jp-mod-styled';
+    this._contextSelect.title = 'Context sent with the message';
+    for (const [value, label] of Object.entries(CONTEXT_LABELS)) {
+      this._contextSelect.append(new Option(label, value));
+    }
+    this._input.className = 'jp-mod-styled';
+    this._input.rows = 3;
+    this._input.placeholder =
+      'Ask a question (Enter to send, Shift+Enter for new line)';
+    this._input.addEventListener('keydown', event => {
+      if (event.key === 'Enter' && !event.shiftKey) {
+        event.preventDefault();
+        void this._send();
+      }
+    });
+    this._sendButton.className = 'jp-mod-styled jp-mod-accept';
+    this._sendButton.onclick = () =>
+      this._generation ? this._generation.cancel() : void this._send();
+    footer.append(this._contextSelect, this._input, this._sendButton);
+
+    this.node.append(header, this._messages, footer);
+    this._updateSendButton();
+  }
+
+  /**
+   * Start a new conversation.
+   */
+  clear() {
+    this._generation?.cancel();
+    this._history = [];
+    this._systemPrompt = SYSTEM_PROMPT;
+    this._messages.replaceChildren();
+  }
+
+  /**
+   * Start a new conversation with given system prompt and first message,
+   * e.g. for explaining a cell.
+   */
+  async start(options: ChatPanel.IStartOptions): Promise<void> {
+    this._generation?.cancel();
+    await this._running;
+    this.clear();
+    this._systemPrompt = options.system;
+    if (options.model) {
+      this._renderModels();
+      this._modelSelect.value = options.model;
+      if (this._modelSelect.value !== options.model) {
+        // e.g. code model which is not offered for text
+        this._modelSelect.append(
+          new Option(options.model, options.model, false, true)
+        );
+      }
+    }
+    this._running = this._submit(
+      options.content,
+      options.question,
+      options.note ?? ''
+    );
+    return this._running;
+  }
+
+  protected onAfterShow(msg: Message) {
+    super.onAfterShow(msg);
+    this._renderModels();
+  }
+
+  protected onActivateRequest(msg: Message) {
+    super.onActivateRequest(msg);
+    this._input.focus();
+  }
+
+  private _renderModels() {
+    const engine = this.options.engine;
+    const selected = this._modelSelect.value || engine.defaultModel() || '';
+    this._modelSelect.replaceChildren(
+      ...engine
+        .models('text')
+        .map(model => new Option(model, model, false, model === selected))
+    );
+  }
+
+  private async _send() {
+    const question = this._input.value.trim();
+    if (!question || this._generation) {
+      return;
+    }
+    const kind = this._contextSelect.value as ChatContext;
+    const context = kind === 'none' ? null : this._context(kind);
+    const content = context
+      ? `${CONTEXT_LABELS[kind]}:\n\n${context}\n\n${question}`
+      : question;
+    this._input.value = '';
+    this._running = this._submit(
+      content,
+      question,
+      context ? `with ${CONTEXT_LABELS[kind].toLowerCase()}` : ''
+    );
+    return this._running;
+  }
+
+  /**
+   * Send message and stream the reply.
+   *
+   * @param content - message sent to the model
+   * @param question - message shown to the user
+   * @param note - description of context included in the message
+   */
+  private async _submit(content: string, question: string, note: string) {
+    this._appendMessage('user', question, note);
+    const messages: ChatCompletionMessageParam[] = [
+      { role: 'system', content: this._systemPrompt },
+      ...this._history.slice(-MAX_HISTORY),
+      { role: 'user', content }
+    ];
+
+    const reply = this._appendMessage('assistant', '');
+    const renderer = this.options.rendermime?.createRenderer('text/markdown');
+    if (renderer) {
+      reply.replaceChildren(renderer.node);
+    }
+    let text = '';
+    try {
+      this._generation = this.options.engine.chat({
+        messages,
+        model: this._modelSelect.value || undefined
+      });
+      this._updateSendButton();
+      for await (const [output] of this._generation) {
+        text = output;
+        await this._render(reply, renderer, text);
+      }
+      this._history.push(
+        { role: 'user', content },
+        { role: 'assistant', content: text }
+      );
+    } catch (e) {
+      const error = document.createElement('div');
+      error.className = 'jp-web-llm-chat-error';
+      error.textContent = e instanceof Error ? e.message : String(e);
+      reply.append(error);
+    } finally {
+      this._generation = null;
+      this._updateSendButton();
+      reply.classList.remove('jp-mod-streaming');
+      this._addCodeActions(reply);
+    }
+  }
+
+  /**
+   * Get the requested part of the current document as Markdown.
+   */
+  private _context(kind: Exclude<ChatContext, 'none'>): string | null {
+    const notebook = this.options.activeNotebook();
+    const language = notebook?.context.model
+      ? notebookLanguage(notebook.context.model)
+      : '';
+    if (kind === 'notebook') {
+      return notebook?.context.model
+        ? notebookAsMarkdown(notebook.context.model, true)
+        : null;
+    }
+    const editor = this.options.activeEditor();
+    if (!editor) {
+      return null;
+    }
+    let source = editor.model.sharedModel.getSource();
+    if (kind === 'selection') {
+      const { start, end } = editor.getSelection();
+      const offsets = [editor.getOffsetAt(start), editor.getOffsetAt(end)];
+      source = source.slice(Math.min(...offsets), Math.max(...offsets));
+    }
+    return source ? '```' + language + '\n' + source + '\n```' : null;
+  }
+
+  private _appendMessage(
+    role: 'user' | 'assistant',
+    text: string,
+    note = ''
+  ): HTMLElement {
+    const message = document.createElement('div');
+    message.className = 'jp-web-llm-chat-message';
+    message.dataset.role = role;
+    const body = document.createElement('div');
+    body.className = 'jp-web-llm-chat-message-body';
+    body.textContent = text;
+    message.append(body);
+    if (note) {
+      const details = document.createElement('div');
+      details.className = 'jp-web-llm-chat-message-note';
+      details.textContent = note;
+      message.append(details);
+    }
+    if (role === 'assistant') {
+      body.classList.add('jp-mod-streaming');
+    }
+    this._messages.append(message);
+    message.scrollIntoView({ block: 'end' });
+    return body;
+  }
+
+  private async _render(
+    node: HTMLElement,
+    renderer: IRenderMime.IRenderer | undefined,
+    text: string
+  ) {
+    if (renderer) {
+      await renderer.renderModel(
+        new MimeModel({ data: { 'text/markdown': text } })
+      );
+    } else {
+      node.textContent = text;
+    }
+    node.scrollIntoView({ block: 'end' });
+  }
+
+  /**
+   * Add buttons copying or inserting the code to code blocks.
+   */
+  private _addCodeActions(node: HTMLElement) {
+    for (const block of node.querySelectorAll('pre')) {
+      const code = block.textContent ?? '';
+      const actions = document.createElement('div');
+      actions.className = 'jp-web-llm-chat-code-actions';
+      actions.append(
+        this._button('Copy', () => Clipboard.copyToSystem(code)),
+        this._button('Insert', () => {
+          const editor = this.options.activeEditor();
+          if (editor?.replaceSelection) {
+            editor.replaceSelection(code);
+          }
+        })
+      );
+      block.before(actions);
+    }
+  }
+
+  private _updateSendButton() {
+    this._sendButton.textContent = this._generation ? 'Stop' : 'Send';
+  }
+
+  private _button(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'jp-mod-styled jp-mod-reject';
+    button.textContent = label;
+    button.onclick = onClick;
+    return button;
+  }
+
+  private _contextSelect = document.createElement('select');
+  private _generation: IWebLLMEngine.IGeneration | null = null;
+  private _history: ChatCompletionMessageParam[] = [];
+  private _input = document.createElement('textarea');
+  private _messages = document.createElement('div');
+  private _modelSelect = document.createElement('select');
+  private _running: Promise<void> = Promise.resolve();
+  private _sendButton = document.createElement('button');
+  private _systemPrompt = SYSTEM_PROMPT;
+}
+
+export namespace ChatPanel {
+  export interface IOptions {
+    engine: IWebLLMEngine;
+    /**
+     * Registry used to render replies as Markdown; replies are shown as plain text if not given.
+     */
+    rendermime: IRenderMimeRegistry | null;
+    /**
+     * Get the editor of the active cell or file, if any.
+     */
+    activeEditor: () => CodeEditor.IEditor | null;
+    /**
+     * Get the active notebook, if any.
+     */
+    activeNotebook: () => NotebookPanel | null;
+  }
+
+  export interface IStartOptions {
+    system: string;
+    /**
+     * Message sent to the model.
+     */
+    content: string;
+    /**
+     * Message shown to the user.
+     */
+    question: string;
+    /**
+     * Description of context included in the message.
+     */
+    note?: string;
+    /**
+     * Model to use instead of the one selected in the panel.
+     */
+    model?: string;
+  }
+}
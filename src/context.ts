@@ -0,0 +1,146 @@
+import type { CompletionHandler } from '@jupyterlab/completer';
+import type { ITokenMeasure } from './tokenizer';
+
+/**
+ * Upper bound on the number of characters per token, used to avoid
+ * tokenizing text which could not possibly fit in the budget.
+ */
+const MAX_CHARACTERS_PER_TOKEN = 16;
+
+/**
+ * Text surrounding the cursor which is provided to the model.
+ */
+export interface IContextWindows {
+  /**
+   * Text before the cursor.
+   */
+  prefix: string;
+  /**
+   * Text after the cursor.
+   */
+  suffix: string;
+}
+
+/**
+ * Context windows with their length in tokens.
+ */
+export interface IMeasuredWindows extends IContextWindows {
+  prefixTokens: number;
+  suffixTokens: number;
+  /**
+   * Whether the prefix includes all text before the cursor.
+   */
+  complete: boolean;
+}
+
+/**
+ * Extract prefix and suffix windows from request, accounting for limits (in tokens).
+ *
+ * Windows are truncated on line boundaries; a line is only truncated (on a token
+ * boundary) if not even the line adjacent to the cursor fits. The suffix gets
+ * at most the tokens which remain out of the `total` after the prefix.
+ */
+export async function windowsFromRequest(
+  request: CompletionHandler.IRequest,
+  limits: { prefix: number; suffix: number; total: number },
+  measure: ITokenMeasure
+): Promise<IMeasuredWindows> {
+  const textBefore = request.text.slice(0, request.offset);
+  const textAfter = request.text.slice(request.offset);
+  const prefixLines = Private.splitLines(
+    textBefore.slice(
+      Math.max(textBefore.length - limits.prefix * MAX_CHARACTERS_PER_TOKEN, 0)
+    )
+  );
+  const suffixLines = Private.splitLines(
+    textAfter.slice(0, limits.suffix * MAX_CHARACTERS_PER_TOKEN)
+  );
+  const counts = await measure.count([...prefixLines, ...suffixLines]);
+
+  const prefixBudget = Math.max(Math.min(limits.prefix, limits.total), 0);
+  let prefixTokens = 0;
+  let start = prefixLines.length;
+  while (start > 0 && prefixTokens + counts[start - 1] <= prefixBudget) {
+    start--;
+    prefixTokens += counts[start];
+  }
+  let prefix = prefixLines.slice(start).join('');
+  if (start === prefixLines.length && start > 0 && prefixBudget > 0) {
+    const line = prefixLines[start - 1];
+    const offsets = await measure.offsets(line);
+    const cut = Math.max(offsets.length - prefixBudget, 0);
+    prefix = line.slice(offsets[cut] ?? 0);
+    prefixTokens = offsets.length - cut;
+  }
+
+  const suffixCounts = counts.slice(prefixLines.length);
+  const suffixBudget = Math.max(
+    Math.min(limits.suffix, limits.total - prefixTokens),
+    0
+  );
+  let suffixTokens = 0;
+  let end = 0;
+  while (
+    end < suffixLines.length &&
+    suffixTokens + suffixCounts[end] <= suffixBudget
+  ) {
+    suffixTokens += suffixCounts[end];
+    end++;
+  }
+  let suffix = suffixLines.slice(0, end).join('');
+  if (end === 0 && suffixLines.length > 0 && suffixBudget > 0) {
+    const line = suffixLines[0];
+    const offsets = await measure.offsets(line);
+    suffix = line.slice(0, offsets[suffixBudget] ?? line.length);
+    suffixTokens = Math.min(suffixBudget, offsets.length);
+  }
+
+  return {
+    prefix,
+    suffix,
+    prefixTokens,
+    suffixTokens,
+    complete: prefix === textBefore
+  };
+}
+
+/**
+ * Remove the part of suggestion which repeats the text after the cursor.
+ *
+ * The suggestion is cut before the first line matching the first non-blank
+ * line of the suffix, and any trailing characters which duplicate the
+ * beginning of the suffix are removed.
+ */
+export function trimSuffixOverlap(text: string, suffix: string): string {
+  if (!text || !suffix) {
+    return text;
+  }
+  const anchor = suffix
+    .split('\n')
+    .map(line => line.trim())
+    .find(line => line.length > 0);
+  if (anchor) {
+    const lines = text.split('\n');
+    for (let i = 1; i < lines.length; i++) {
+      if (lines[i].trim() === anchor) {
+        text = lines.slice(0, i).join('\n') + '\n';
+        break;
+      }
+    }
+  }
+  for (let k = Math.min(text.length, suffix.length); k > 0; k--) {
+    if (text.endsWith(suffix.slice(0, k))) {
+      return text.slice(0, -k);
+    }
+  }
+  return text;
+}
+
+namespace Private {
+  /**
+   * Split text into lines, keeping line endings.
+   */
+  export function splitLines(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+  }
+}
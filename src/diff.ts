@@ -0,0 +1,72 @@
+import { Widget } from '@lumino/widgets';
+
+/**
+ * Line of a diff between two texts.
+ */
+export interface IDiffLine {
+  type: 'unchanged' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Compute line-based diff turning `before` into `after`, using the longest
+ * common subsequence of lines.
+ */
+export function diffLines(before: string, after: string): IDiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  // lengths[i][j] is the length of common subsequence of a[i:] and b[j:]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const lines: IDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (
+      j < b.length &&
+      (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])
+    ) {
+      lines.push({ type: 'added', text: b[j] });
+      j++;
+    } else {
+      lines.push({ type: 'removed', text: a[i] });
+      i++;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Widget showing a diff with added and removed lines highlighted.
+ */
+export class DiffView extends Widget {
+  constructor(lines: IDiffLine[]) {
+    super({ node: document.createElement('pre') });
+    this.addClass('jp-web-llm-diff');
+    for (const line of lines) {
+      const row = document.createElement('div');
+      row.dataset.type = line.type;
+      row.textContent = DIFF_MARKERS[line.type] + line.text;
+      this.node.append(row);
+    }
+  }
+}
+
+const DIFF_MARKERS: Record<IDiffLine['type'], string> = {
+  unchanged: '  ',
+  added: '+ ',
+  removed: '- '
+};
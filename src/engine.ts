@@ -0,0 +1,283 @@
+import { PromiseDelegate } from '@lumino/coreutils';
+import { ISignal, Signal } from '@lumino/signaling';
+import type { ChatCompletionMessageParam } from '@mlc-ai/web-llm';
+import { ModelError } from './errors';
+import type { IModelStatus, ModelManager } from './manager';
+import type { ModelTag } from './registry';
+import type { IWebLLMEngine } from './tokens';
+import { ICounterSender, MAX_LANES } from './transport';
+import type { ClientMessage, WorkerMessage } from './types';
+
+/**
+ * Lanes of generation counters reserved for the inline completer; requests
+ * made through the engine are spread over the remaining lanes so that they
+ * can be cancelled individually.
+ */
+const RESERVED_LANES = 2;
+
+/**
+ * Engine shared with other extensions, backed by the worker of the inline completer.
+ */
+export class WebLLMEngine implements IWebLLMEngine {
+  constructor(protected options: WebLLMEngine.IOptions) {
+    options.manager.changed.connect(this._onModelChanged, this);
+  }
+
+  get modelChanged(): ISignal<WebLLMEngine, string> {
+    return this._modelChanged;
+  }
+
+  models(tag?: ModelTag): string[] {
+    return this.options.manager.registry
+      .models(tag)
+      .map(record => record.model_id);
+  }
+
+  defaultModel(): string | null {
+    const model = this.options.defaultModel();
+    return model && model !== 'none' ? model : null;
+  }
+
+  status(model: string): IModelStatus {
+    return this.options.manager.status(model);
+  }
+
+  load(model: string): Promise<void> {
+    if (this.status(model).state === 'loaded') {
+      return Promise.resolve();
+    }
+    let delegate = this._loading.get(model);
+    if (!delegate) {
+      delegate = new PromiseDelegate();
+      this._loading.set(model, delegate);
+      this.options.manager.preload(model);
+    }
+    return delegate.promise;
+  }
+
+  unload(model: string) {
+    this.options.manager.unload(model);
+  }
+
+  chat(request: IWebLLMEngine.IChatRequest): IWebLLMEngine.IGeneration {
+    const { messages, ...options } = request;
+    return this._generate(messages, options);
+  }
+
+  complete(
+    request: IWebLLMEngine.ICompletionRequest
+  ): IWebLLMEngine.IGeneration {
+    const { prompt, ...options } = request;
+    return this._generate([{ role: 'user', content: prompt }], options);
+  }
+
+  /**
+   * Handle message from the worker, ignoring messages unrelated to the engine.
+   */
+  handleMessage(data: WebLLMEngine.Message) {
+    switch (data.status) {
+      case 'ready':
+        this._loading.get(data.model)?.resolve();
+        this._loading.delete(data.model);
+        break;
+      case 'unloaded':
+        this._loading.get(data.model)?.reject(Error('Loading cancelled'));
+        this._loading.delete(data.model);
+        break;
+      case 'update':
+      case 'complete': {
+        const generation = this._requests.get(data.requestId);
+        generation?.update(
+          data.idToken,
+          data.output,
+          data.status === 'complete'
+        );
+        if (generation?.finished) {
+          this._requests.delete(data.requestId);
+        }
+        break;
+      }
+      case 'interrupted':
+        this._requests
+          .get(data.requestId)
+          ?.fail(new ModelError('interrupted', 'Generation cancelled'));
+        this._requests.delete(data.requestId);
+        break;
+      case 'exception': {
+        const error = new ModelError(data.error.code, data.error.message);
+        if (data.requestId) {
+          this._requests.get(data.requestId)?.fail(error);
+          this._requests.delete(data.requestId);
+        } else if (data.model) {
+          // loading of the model failed
+          this._loading.get(data.model)?.reject(error);
+          this._loading.delete(data.model);
+          for (const [requestId, generation] of this._requests) {
+            if (generation.model === data.model) {
+              generation.fail(error);
+              this._requests.delete(requestId);
+            }
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  private _generate(
+    messages: ChatCompletionMessageParam[],
+    options: IWebLLMEngine.IRequest
+  ): IWebLLMEngine.IGeneration {
+    const { model: requestedModel, n, ...profile } = options;
+    const model = requestedModel ?? this.defaultModel();
+    if (!model) {
+      throw Error('No model was given and no default model is selected');
+    }
+    const requestId = 'E' + ++this._requestCounter;
+    const idTokens = [...Array(n ?? 1).keys()].map(i => `${requestId}-${i}`);
+    // lanes are reused in turn; a request is only superseded once all
+    // other lanes were used by newer requests
+    const lane =
+      RESERVED_LANES + (this._requestCounter % (MAX_LANES - RESERVED_LANES));
+    const counter = (this._counters[lane] ?? 0) + 1;
+    this._counters[lane] = counter;
+    this.options.counterSender.send(lane, counter);
+
+    const generation = new Private.Generation(model, idTokens, () => {
+      if (this._counters[lane] === counter) {
+        this._counters[lane] = counter + 1;
+        this.options.counterSender.send(lane, counter + 1);
+      }
+    });
+    this._requests.set(requestId, generation);
+    this.options.postMessage({
+      action: 'generate',
+      model,
+      messages,
+      ...profile,
+      generateN: idTokens.length,
+      requestId,
+      priority: 'invoke',
+      idTokens,
+      lane,
+      counter
+    });
+    return generation;
+  }
+
+  private _onModelChanged(_: ModelManager, model: string) {
+    this._modelChanged.emit(model);
+  }
+
+  private _counters: number[] = [];
+  private _loading: Map<string, PromiseDelegate<void>> = new Map();
+  private _modelChanged = new Signal<WebLLMEngine, string>(this);
+  private _requestCounter = 0;
+  private _requests: Map<string, Private.Generation> = new Map();
+}
+
+export namespace WebLLMEngine {
+  export interface IOptions {
+    manager: ModelManager;
+    counterSender: ICounterSender;
+    postMessage: (message: ClientMessage.IGenerate) => void;
+    /**
+     * Get the model used for requests which do not specify one.
+     */
+    defaultModel: () => string | null;
+  }
+
+  /**
+   * Messages from the worker which affect requests made through the engine.
+   */
+  export type Message =
+    | WorkerMessage.IReady
+    | WorkerMessage.IUnloaded
+    | WorkerMessage.IUpdate
+    | WorkerMessage.IComplete
+    | WorkerMessage.IInterrupted
+    | WorkerMessage.IException;
+}
+
+namespace Private {
+  /**
+   * Generation collecting candidates streamed by the worker.
+   */
+  export class Generation implements IWebLLMEngine.IGeneration {
+    constructor(
+      readonly model: string,
+      private _idTokens: string[],
+      private _cancel: () => void
+    ) {
+      this._outputs = _idTokens.map(() => '');
+      this._pending = new Set(_idTokens);
+      // rejection is reported to consumers which await the result
+      this._result.promise.catch(() => undefined);
+    }
+
+    /**
+     * Whether all candidates were generated, or the generation failed.
+     */
+    get finished(): boolean {
+      return this._pending.size === 0;
+    }
+
+    get result(): Promise<string[]> {
+      return this._result.promise;
+    }
+
+    cancel() {
+      this._cancel();
+    }
+
+    update(idToken: string, output: string, done: boolean) {
+      const index = this._idTokens.indexOf(idToken);
+      if (index === -1 || !this._pending.has(idToken)) {
+        return;
+      }
+      this._outputs[index] = output;
+      this._version++;
+      if (done) {
+        this._pending.delete(idToken);
+        if (this.finished) {
+          this._result.resolve([...this._outputs]);
+        }
+      }
+      this._notify();
+    }
+
+    fail(error: Error) {
+      this._pending.clear();
+      this._result.reject(error);
+      this._notify();
+    }
+
+    async *[Symbol.asyncIterator](): AsyncIterator<string[]> {
+      let seen = 0;
+      for (;;) {
+        if (this._version !== seen) {
+          seen = this._version;
+          yield [...this._outputs];
+        }
+        if (this.finished) {
+          // throws if the generation failed
+          await this._result.promise;
+          return;
+        }
+        this._changed = new PromiseDelegate();
+        await this._changed.promise;
+      }
+    }
+
+    private _notify() {
+      this._changed?.resolve();
+      this._changed = null;
+    }
+
+    private _changed: PromiseDelegate<void> | null = null;
+    private _outputs: string[];
+    private _pending: Set<string>;
+    private _result = new PromiseDelegate<string[]>();
+    private _version = 0;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Kind of failure reported by the worker.
+ *
+ * - `load-failed`: model could not be downloaded or compiled,
+ * - `unsupported`: model cannot run on the device (see the preflight report),
+ * - `out-of-memory`: GPU ran out of memory,
+ * - `device-lost`: GPU device was lost, e.g. after a driver reset,
+ * - `interrupted`: generation was superseded or cancelled,
+ * - `bad-config`: model or server is misconfigured,
+ * - `generation-failed`: generation failed for another reason,
+ * - `unknown`: failure not related to a model or request.
+ */
+export type ErrorCode =
+  | 'load-failed'
+  | 'unsupported'
+  | 'out-of-memory'
+  | 'device-lost'
+  | 'interrupted'
+  | 'bad-config'
+  | 'generation-failed'
+  | 'unknown';
+
+/**
+ * Error as sent between the worker and the main thread.
+ */
+export interface IErrorInfo {
+  code: ErrorCode;
+  message: string;
+}
+
+/**
+ * Error with a code describing the kind of failure.
+ */
+export class ModelError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Describe error for sending to the main thread, inferring the code of
+ * errors raised by web-llm and WebGPU from their messages.
+ *
+ * @param fallback - code used if the kind of failure is not recognised
+ */
+export function errorInfo(error: unknown, fallback: ErrorCode): IErrorInfo {
+  const message =
+    error instanceof Error ? error.message : JSON.stringify(error);
+  let code = fallback;
+  if (error instanceof ModelError) {
+    code = error.code;
+  } else if (/out of memory|OutOfMemory/i.test(message)) {
+    code = 'out-of-memory';
+  } else if (/device (was )?lost/i.test(message)) {
+    code = 'device-lost';
+  }
+  return { code, message };
+}
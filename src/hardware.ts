@@ -0,0 +1,188 @@
+import type { ModelRecord } from '@mlc-ai/web-llm';
+import { ErrorCode, ModelError } from './errors';
+
+/**
+ * Capabilities of the WebGPU adapter relevant to running models.
+ */
+export interface IAdapterReport {
+  /**
+   * Whether WebGPU is available and an adapter was found.
+   */
+  available: boolean;
+  /**
+   * Vendor and description of the adapter, if reported by the browser.
+   */
+  description: string;
+  features: string[];
+  maxBufferSize: number;
+  maxStorageBufferBindingSize: number;
+  /**
+   * Whether the adapter is a software implementation, such as SwiftShader.
+   */
+  isFallbackAdapter: boolean;
+}
+
+/**
+ * Result of checking whether a model can run on the device.
+ */
+export interface IPreflightReport {
+  /**
+   * Reasons why the model cannot run; empty if none were found.
+   */
+  problems: string[];
+  adapter: IAdapterReport;
+}
+
+/**
+ * Error raised when a model cannot run on the device, either found before
+ * loading (`unsupported`) or when loading exhausted the GPU memory.
+ */
+export class UnsupportedModelError extends ModelError {
+  constructor(
+    model: string,
+    readonly report: IPreflightReport,
+    code: ErrorCode = 'unsupported'
+  ) {
+    super(
+      code,
+      `${model} cannot run on this device: ${report.problems.join('; ')}`
+    );
+  }
+}
+
+/**
+ * Maximum `maxStorageBufferBindingSize` of devices which can only run
+ * models marked as low-resource (128 MB, the default on Android);
+ * web-llm requests 1 GB on other devices.
+ */
+const LOW_RESOURCE_BINDING_SIZE = 1 << 27;
+
+const MB = 1 << 20;
+
+/**
+ * Query capabilities of the high-performance WebGPU adapter.
+ */
+export async function queryAdapter(): Promise<IAdapterReport> {
+  const gpu = (navigator as Navigator & { gpu?: Private.IGPU }).gpu;
+  const adapter = gpu
+    ? await gpu.requestAdapter({ powerPreference: 'high-performance' })
+    : null;
+  if (!adapter) {
+    return {
+      available: false,
+      description: '',
+      features: [],
+      maxBufferSize: 0,
+      maxStorageBufferBindingSize: 0,
+      isFallbackAdapter: false
+    };
+  }
+  let info = adapter.info;
+  if (!info && adapter.requestAdapterInfo) {
+    // browsers before Chrome 127 only expose information asynchronously
+    info = await adapter.requestAdapterInfo();
+  }
+  return {
+    available: true,
+    description: [info?.vendor, info?.description]
+      .filter(part => !!part)
+      .join(' '),
+    features: [...adapter.features],
+    maxBufferSize: adapter.limits.maxBufferSize,
+    maxStorageBufferBindingSize: adapter.limits.maxStorageBufferBindingSize,
+    isFallbackAdapter: adapter.isFallbackAdapter ?? false
+  };
+}
+
+/**
+ * List reasons why the model cannot run on the adapter.
+ *
+ * @param vramLimit - video memory available to the browser in MB, or zero if unknown
+ */
+export function checkRequirements(
+  record: ModelRecord,
+  adapter: IAdapterReport,
+  vramLimit: number
+): string[] {
+  if (!adapter.available) {
+    return [
+      'WebGPU is not available in this browser (see the requirements in the documentation)'
+    ];
+  }
+  const problems: string[] = [];
+  for (const feature of record.required_features ?? []) {
+    if (!adapter.features.includes(feature)) {
+      problems.push(
+        feature === 'shader-f16'
+          ? 'the GPU does not support 16-bit floats in shaders (`shader-f16`); choose a `q4f32` variant of the model'
+          : `the GPU does not support \`${feature}\``
+      );
+    }
+  }
+  if (
+    record.buffer_size_required_bytes &&
+    record.buffer_size_required_bytes > adapter.maxStorageBufferBindingSize
+  ) {
+    problems.push(
+      `the model needs buffers of ${Math.ceil(
+        record.buffer_size_required_bytes / MB
+      )} MB but the GPU allows ${Math.floor(
+        adapter.maxStorageBufferBindingSize / MB
+      )} MB`
+    );
+  } else if (
+    !record.low_resource_required &&
+    adapter.maxStorageBufferBindingSize <= LOW_RESOURCE_BINDING_SIZE
+  ) {
+    problems.push(
+      `the GPU allows buffers of only ${Math.floor(
+        adapter.maxStorageBufferBindingSize / MB
+      )} MB, enough for low-resource models only`
+    );
+  }
+  if (adapter.isFallbackAdapter && !record.low_resource_required) {
+    problems.push(
+      'the browser only provides a software WebGPU adapter, which is too slow for models which are not low-resource'
+    );
+  }
+  if (
+    vramLimit > 0 &&
+    record.vram_required_MB &&
+    record.vram_required_MB > vramLimit
+  ) {
+    problems.push(
+      `the model needs ${Math.round(
+        record.vram_required_MB
+      )} MB of video memory but ${vramLimit} MB is available`
+    );
+  }
+  return problems;
+}
+
+namespace Private {
+  /**
+   * Subset of the WebGPU API used to query the adapter; the WebGPU types
+   * are not part of the TypeScript DOM library yet.
+   */
+  export interface IGPU {
+    requestAdapter(options?: {
+      powerPreference?: 'low-power' | 'high-performance';
+    }): Promise<IGPUAdapter | null>;
+  }
+
+  export interface IGPUAdapter {
+    features: ReadonlySet<string>;
+    limits: {
+      maxBufferSize: number;
+      maxStorageBufferBindingSize: number;
+    };
+    info?: IGPUAdapterInfo;
+    isFallbackAdapter?: boolean;
+    requestAdapterInfo?(): Promise<IGPUAdapterInfo>;
+  }
+
+  export interface IGPUAdapterInfo {
+    vendor: string;
+    description: string;
+  }
+}
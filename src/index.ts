@@ -8,140 +8,586 @@ import {
   IInlineCompletionContext,
   CompletionHandler,
   IInlineCompletionList,
-  IInlineCompletionItem
+  IInlineCompletionItem,
+  InlineCompletionTriggerKind
 } from '@jupyterlab/completer';
-import type { ISettingRegistry } from '@jupyterlab/settingregistry';
-import { Notification, showErrorMessage } from '@jupyterlab/apputils';
+import { ISettingRegistry } from '@jupyterlab/settingregistry';
+import {
+  Dialog,
+  ICommandPalette,
+  InputDialog,
+  ISessionContext,
+  Notification,
+  showDialog
+} from '@jupyterlab/apputils';
+import type { CodeEditor } from '@jupyterlab/codeeditor';
+import { PathExt } from '@jupyterlab/coreutils';
+import { DocumentRegistry, DocumentWidget } from '@jupyterlab/docregistry';
+import {
+  INotebookTracker,
+  NotebookActions,
+  NotebookPanel
+} from '@jupyterlab/notebook';
+import { IRenderMimeRegistry } from '@jupyterlab/rendermime';
+import { CommandToolbarButton } from '@jupyterlab/ui-components';
+import { IStatusBar } from '@jupyterlab/statusbar';
 import { JSONValue, PromiseDelegate } from '@lumino/coreutils';
-import type { ClientMessage, WorkerMessage } from './types';
-import { Descriptions } from './descriptions';
+import { Widget } from '@lumino/widgets';
+import type { ClientMessage, RequestPriority, WorkerMessage } from './types';
+import { IMeasuredWindows, windowsFromRequest } from './context';
 import {
-  prebuiltAppConfig,
-  ModelRecord,
-  GenerationConfig
-} from '@mlc-ai/web-llm';
-
-const codeModels = [...prebuiltAppConfig.model_list];
-codeModels.length = 0; // TODO
-const textModels = prebuiltAppConfig.model_list;
+  buildNotebookContext,
+  languageSyntax,
+  notebookLanguage
+} from './notebook';
+import { formatFim } from './models';
+import {
+  ICustomModel,
+  IServerModel,
+  ITaggedModelRecord,
+  ModelRegistry,
+  ModelTag
+} from './registry';
+import { IGenerationProfile, PROFILE_SCHEMA, resolveProfile } from './profiles';
+import {
+  DEFAULT_TEMPLATES,
+  IPrompt,
+  IPromptTemplate,
+  promptMessages,
+  promptText,
+  renderTemplate,
+  selectTemplate
+} from './prompts';
+import { CHARACTER_MEASURE, ITokenMeasure, TokenCounter } from './tokenizer';
+import { createCounterSender, ICounterSender } from './transport';
+import { CompletionCache, ICacheHit } from './cache';
+import { KernelContext } from './kernel';
+import { IOpenDocument, RetrievalContext, RetrievalScope } from './retrieval';
+import { ITriggerPolicy, isSuppressed } from './trigger';
+import { ModelManager } from './manager';
+import { WebLLMEngine } from './engine';
+import { IWebLLMEngine } from './tokens';
+import type { BackendName } from './backend';
+import { ErrorCode, IErrorInfo } from './errors';
+import { checkRequirements, IPreflightReport } from './hardware';
+import { ModelManagerPanel } from './sidebar';
+import { ChatPanel } from './chat';
+import { CellAction, CellActions, DEFAULT_ACTION_TEMPLATES } from './actions';
+import { GenerationLog, InspectorPanel } from './inspector';
+import { GenerationMonitor } from './monitor';
+import { CompleterStatus } from './statusbar';
+import { IProcessingContext, isRedundant, postProcess } from './postprocess';
+import type { ChatCompletionMessageParam } from '@mlc-ai/web-llm';
 
-interface ISettings extends GenerationConfig {
+interface ISettings extends ITriggerPolicy {
   codeModel: string;
   textModel: string;
+  customModels: ICustomModel[];
+  serverModels: IServerModel[];
+  generationProfiles: Record<string, IGenerationProfile>;
   maxContextWindow: number;
+  maxSuffixWindow: number;
+  fillInTheMiddle: boolean;
+  notebookContext: boolean;
+  kernelContext: boolean;
+  kernelContextBudget: number;
+  retrieval: RetrievalScope;
+  retrievalSnippets: number;
+  retrievalBudget: number;
+  includeCellOutputs: boolean;
+  promptTemplates: Record<string, IPromptTemplate>;
   generateN: number;
+  cacheSize: number;
+  inspectorHistory: number;
+  backend: BackendName;
+  vramLimit: number;
+  fallbackModels: string[];
+  loadingPolicy: 'eager' | 'on-first-use' | 'manual';
+  idleTimeout: number;
+  actionTemplates: Partial<Record<CellAction, IPromptTemplate>>;
 }
 
 const DEFAULT_SETTINGS: ISettings = {
   codeModel: 'none',
   textModel: 'Llama-3-8B-Instruct-q4f32_1-1k',
-  temperature: 0.5,
-  top_p: null,
+  customModels: [],
+  serverModels: [],
+  generationProfiles: {},
   generateN: 2,
-  max_gen_len: 512,
-  frequency_penalty: 0,
-  presence_penalty: 0,
-  repetition_penalty: 0,
-  maxContextWindow: 525
+  cacheSize: 64,
+  inspectorHistory: 20,
+  backend: 'web-llm',
+  vramLimit: 0,
+  fallbackModels: ['Phi1.5-q4f32_1-1k', 'TinyLlama-1.1B-Chat-v0.4-q4f32_1-1k'],
+  loadingPolicy: 'on-first-use',
+  idleTimeout: 30,
+  debounceDelay: 200,
+  minPrefixLength: 1,
+  triggerModes: { code: 'automatic', text: 'invoke' },
+  suppressInComments: false,
+  suppressInStrings: false,
+  maxContextWindow: 512,
+  maxSuffixWindow: 128,
+  fillInTheMiddle: true,
+  notebookContext: true,
+  kernelContext: false,
+  kernelContextBudget: 128,
+  retrieval: 'open-documents',
+  retrievalSnippets: 3,
+  retrievalBudget: 256,
+  includeCellOutputs: false,
+  promptTemplates: DEFAULT_TEMPLATES,
+  actionTemplates: DEFAULT_ACTION_TEMPLATES
+};
+
+/**
+ * Lanes of generation counters; requests for code and text do not cancel each other.
+ */
+const LANES: Record<'code' | 'text', number> = {
+  code: 0,
+  text: 1
 };
 
+/**
+ * Titles of notifications about failures reported by the worker.
+ */
+const ERROR_LABELS: Record<ErrorCode, string> = {
+  'load-failed': 'Could not load model',
+  unsupported: 'Model cannot run on this device',
+  'out-of-memory': 'GPU ran out of memory',
+  'device-lost': 'GPU device was lost',
+  interrupted: 'Generation was interrupted',
+  'bad-config': 'Invalid model configuration',
+  'generation-failed': 'Generating suggestions failed',
+  unknown: 'Worker error'
+};
+
+const TEXT_MIME_TYPES = [
+  'text/x-ipythongfm',
+  'text/x-markdown',
+  'text/plain',
+  'text/x-rst',
+  'text/x-latex',
+  'text/x-rsrc'
+];
+
 class WebLLMInlineProvider implements IInlineCompletionProvider {
   readonly identifier = '@jupyterlab/web-llm-completer';
   readonly name = 'Web-llm powered completions';
 
+  /**
+   * Manager of models loaded in the worker.
+   */
+  readonly manager: ModelManager;
+
+  /**
+   * Timing of generations.
+   */
+  readonly monitor = new GenerationMonitor();
+
+  /**
+   * Details of recent requests shown in the inspector.
+   */
+  readonly log = new GenerationLog({
+    size: DEFAULT_SETTINGS.inspectorHistory
+  });
+
+  /**
+   * Engine shared with other extensions.
+   */
+  readonly engine: WebLLMEngine;
+
+  /**
+   * Whether automatic suggestions are paused in all documents.
+   */
+  paused = false;
+
   constructor(protected options: WebLLMInlineProvider.IOptions) {
-    try {
-      SharedArrayBuffer;
-    } catch (e) {
-      showErrorMessage(
-        'SharedArrayBuffer not available',
-        'Server extension enabling `same-origin` and `require-corp` headers is required for jupyterlab-web-llm-completer to access `SharedArrayBuffer` which is used to synchronously communicate with the language model WebWorker.'
-      );
-    }
-    const buffer = new SharedArrayBuffer(1024);
-    this._sharedArray = new Int32Array(buffer);
+    this.manager = new ModelManager({
+      registry: options.registry,
+      postMessage: message => this._postMessage(message)
+    });
+    this._counterSender = createCounterSender();
+    this.engine = new WebLLMEngine({
+      manager: this.manager,
+      counterSender: this._counterSender,
+      // requests wait for the counter transport, set up once the worker started
+      postMessage: message =>
+        void this._workerStarted.promise.then(() => this._postMessage(message)),
+      defaultModel: () => this._settings.textModel
+    });
     options.worker.addEventListener(
       'message',
       this._onMessageReceived.bind(this)
     );
     this._workerStarted.promise.then(() => {
-      this._postMessage({
-        action: 'initializeBuffer',
-        buffer: buffer
-      });
+      this._postMessage(
+        this._counterSender.initMessage,
+        this._counterSender.transfer
+      );
     });
   }
 
+  /**
+   * Current settings.
+   */
+  get settings(): Readonly<ISettings> {
+    return this._settings;
+  }
+
   get schema(): ISettingRegistry.IProperty {
+    this._schemaModels = this._modelsSignature();
     return {
       properties: {
         codeModel: {
           title: 'Code model',
-          description: 'Model used in code cells and code files.',
-          oneOf: [
-            { const: 'none', title: 'No model' },
-            ...codeModels.map(this._formatModelOptions)
-          ],
+          description:
+            'Model used in code cells and code files; models tagged `code` are listed.',
+          anyOf: this._modelOptions('code'),
           type: 'string'
         },
         textModel: {
           title: 'Text model',
           description:
-            'Model used in Markdown (cells and files) and plain text files.',
-          oneOf: [
-            { const: 'none', title: 'No model' },
-            ...textModels.map(this._formatModelOptions)
-          ],
+            'Model used in Markdown (cells and files) and plain text files; models tagged `text` are listed.',
+          anyOf: this._modelOptions('text'),
           type: 'string'
         },
-        // TODO temperature and friends should be per-model
-        temperature: {
+        customModels: {
+          title: 'Custom models',
+          description:
+            'Additional models, such as code models or models with weights mirrored on the Jupyter server (relative URLs are resolved against the server base URL). Saved models are listed in the code and text model selection according to their tags.',
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              model_id: {
+                type: 'string',
+                title: 'Model identifier'
+              },
+              model_url: {
+                type: 'string',
+                title: 'Model URL',
+                description:
+                  'URL of the directory with model weights, tokenizer and `mlc-chat-config.json`.'
+              },
+              model_lib_url: {
+                type: 'string',
+                title: 'Model library URL',
+                description: 'URL of the compiled WebAssembly model library.'
+              },
+              vram_required_MB: {
+                type: 'number',
+                title: 'Required VRAM (MB)'
+              },
+              required_features: {
+                type: 'array',
+                title: 'Required WebGPU features',
+                items: { type: 'string' }
+              },
+              tags: {
+                type: 'array',
+                title: 'Tags',
+                description:
+                  'Whether the model should be offered for `code` and/or `text`, and whether it supports fill-in-the-middle (`fim`); inferred from the identifier if not given.',
+                items: { type: 'string', enum: ['code', 'text', 'fim'] },
+                uniqueItems: true
+              },
+              fim: {
+                type: 'object',
+                title: 'Fill-in-the-middle tokens',
+                description:
+                  'Sentinel tokens used to prompt for infilling; required for fill-in-the-middle with model families which are not known.',
+                properties: {
+                  prefix: { type: 'string' },
+                  suffix: { type: 'string' },
+                  middle: { type: 'string' }
+                },
+                required: ['prefix', 'suffix', 'middle']
+              }
+            },
+            required: ['model_id', 'model_url', 'model_lib_url']
+          }
+        },
+        serverModels: {
+          title: 'Server models',
+          description:
+            'Models served by a local server with OpenAI-compatible chat completions API (llama.cpp, Ollama, vLLM), for machines without WebGPU. Suggestions are streamed over HTTP instead of running in the browser. Saved models are listed in the code and text model selection according to their tags.',
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              model_id: {
+                type: 'string',
+                title: 'Model identifier',
+                description:
+                  'Identifier used in model selection and generation profiles.'
+              },
+              baseUrl: {
+                type: 'string',
+                title: 'Base URL',
+                description:
+                  'URL of the API, e.g. `http://localhost:11434/v1` for Ollama or `http://localhost:8080/v1` for llama.cpp server.'
+              },
+              apiKey: {
+                type: 'string',
+                title: 'API key',
+                description: 'Sent as bearer token, if given.'
+              },
+              model: {
+                type: 'string',
+                title: 'Model name',
+                description:
+                  'Name of the model on the server; defaults to the model identifier.'
+              },
+              tags: {
+                type: 'array',
+                title: 'Tags',
+                items: { type: 'string', enum: ['code', 'text', 'fim'] },
+                uniqueItems: true
+              },
+              fim: {
+                type: 'object',
+                title: 'Fill-in-the-middle tokens',
+                properties: {
+                  prefix: { type: 'string' },
+                  suffix: { type: 'string' },
+                  middle: { type: 'string' }
+                },
+                required: ['prefix', 'suffix', 'middle']
+              }
+            },
+            required: ['model_id', 'baseUrl']
+          }
+        },
+        generationProfiles: {
+          title: 'Generation profiles',
+          description:
+            'Generation parameters keyed by content type (`code` or `text`), model identifier, or model identifier and content type separated by a slash (e.g. `Phi2-q4f16_1/code`). More specific profiles take precedence; parameters which are not set fall back to defaults for the content type (near-greedy decoding for code, more diverse sampling for text) and the model family.',
+          type: 'object',
+          additionalProperties: PROFILE_SCHEMA
+        },
+        generateN: {
+          minimum: 1,
+          type: 'number',
+          title: 'Candidates',
+          description:
+            'How many completion candidates should be generated; models running in the browser generate them one after another.'
+        },
+        cacheSize: {
           minimum: 0,
           type: 'number',
-          title: 'Temperature',
-          description: Descriptions['temperature']
+          title: 'Cache size',
+          description:
+            'How many recent requests to keep suggestions for; suggestions are reused without generating anew when the user types their beginning. Set to zero to disable.'
         },
-        top_p: {
+        inspectorHistory: {
           minimum: 0,
-          maximum: 1,
-          type: ['number', 'null'],
-          title: 'Top P',
-          default: null,
-          description: Descriptions['top_p']
+          type: 'number',
+          title: 'Inspector history',
+          description:
+            'How many recent requests to record in the inspector panel, including prompts, generated text and timings. Set to zero to disable.'
         },
-        max_gen_len: {
-          minimum: 1,
-          maximum: 512,
+        backend: {
+          type: 'string',
+          enum: ['web-llm', 'mock'],
+          title: 'Inference backend',
+          description:
+            'Backend running the models; `mock` streams fixed suggestions without downloading models nor requiring WebGPU, which is useful for testing.'
+        },
+        vramLimit: {
+          minimum: 0,
           type: 'number',
-          title: 'Tokens limit',
-          description: 'Maximum number of new tokens.'
+          title: 'Available video memory (MB)',
+          description:
+            'Video memory available to the browser; models requiring more are not loaded. WebGPU does not report the size of video memory, so it is only checked if set (zero means unknown); otherwise a warning with the memory needed by the model is logged when loading it.'
         },
-        generateN: {
-          minimum: 1,
+        fallbackModels: {
+          title: 'Fallback models',
+          description:
+            'Models tried in turn (among these offered for code or text) when the selected model cannot run on this device, for example because it needs more video memory or a GPU feature such as `shader-f16`. The fallback model is used until the settings change.',
+          type: 'array',
+          items: { type: 'string' }
+        },
+        loadingPolicy: {
+          type: 'string',
+          oneOf: [
+            {
+              const: 'eager',
+              title: 'Load models as soon as they are selected'
+            },
+            {
+              const: 'on-first-use',
+              title: 'Load models when suggestions are first requested'
+            },
+            {
+              const: 'manual',
+              title: 'Load models only from the models panel'
+            }
+          ],
+          title: 'Loading policy',
+          description:
+            'When to download and compile the selected models; with `manual`, no suggestions are shown until the model is loaded from the models panel or with the preload command.'
+        },
+        idleTimeout: {
+          minimum: 0,
           type: 'number',
-          title: 'Candidates',
-          description: 'How many completion candidates should be generated.'
+          title: 'Idle timeout',
+          description:
+            'Time (in minutes) without requests after which a model is unloaded to free GPU memory; it is loaded again from the browser cache on the next request (unless the loading policy is `manual`). Set to zero to keep models loaded.'
         },
-        frequency_penalty: {
-          minimum: -2,
-          maximum: 2,
+        debounceDelay: {
+          minimum: 0,
           type: 'number',
-          title: Descriptions['frequency_penalty']
+          title: 'Debounce delay',
+          description:
+            'Time (in milliseconds) to wait for further typing before generating suggestions automatically.'
         },
-        presence_penalty: {
-          minimum: -2,
-          maximum: 2,
+        minPrefixLength: {
+          minimum: 0,
           type: 'number',
-          title: Descriptions['presence_penalty']
+          title: 'Minimum prefix length',
+          description:
+            'Minimum number of non-whitespace characters before the cursor for suggestions to be generated automatically.'
+        },
+        triggerModes: {
+          title: 'Trigger modes',
+          description:
+            'Whether suggestions for code and text should be generated automatically while typing, or only when explicitly invoked.',
+          type: 'object',
+          properties: {
+            code: { type: 'string', enum: ['automatic', 'invoke'] },
+            text: { type: 'string', enum: ['automatic', 'invoke'] }
+          }
+        },
+        suppressInComments: {
+          title: 'Suppress in comments',
+          type: 'boolean',
+          description:
+            'Whether to skip automatic suggestions when the cursor is in a comment in code.'
+        },
+        suppressInStrings: {
+          title: 'Suppress in strings',
+          type: 'boolean',
+          description:
+            'Whether to skip automatic suggestions when the cursor is in a string in code.'
         },
-        // TODO: characters are a poor proxy for number of tokens when whitespace are many (though a strictly conservative one).
-        // Words could be better but can be over-optimistic - one word can be several tokens).
         maxContextWindow: {
           title: 'Context window',
           minimum: 1,
           type: 'number',
           description:
-            'At most how many characters should be provided to the model. Smaller context results in faster generation at a cost of less accurate suggestions.'
+            "At most how many tokens of text before the cursor (including preceding cells) should be provided to the model. Smaller context results in faster generation at a cost of less accurate suggestions. The context is further limited so that the prompt and generated tokens fit in the model's context window."
+        },
+        maxSuffixWindow: {
+          title: 'Suffix window',
+          minimum: 0,
+          type: 'number',
+          description:
+            'At most how many tokens of text after the cursor should be provided to the model and used to trim suggestions overlapping with the existing text.'
+        },
+        fillInTheMiddle: {
+          title: 'Fill-in-the-middle',
+          type: 'boolean',
+          description:
+            'Whether to prompt models which support infilling (tagged `fim`) with text both before and after the cursor. Such models running in the browser are loaded without chat formatting and cannot be used for chat or cell actions then.'
+        },
+        notebookContext: {
+          title: 'Notebook context',
+          type: 'boolean',
+          description:
+            'Whether to include preceding cells in the context when completing in a notebook. The current cell takes priority, followed by the nearest cells and imports from the remaining cells, for as long as they fit in the context window.'
+        },
+        kernelContext: {
+          title: 'Kernel context',
+          type: 'boolean',
+          description:
+            'Whether to include a summary of the kernel state (names in scope with their types, columns of data frames, and signatures of functions called before the cursor) when completing code in notebooks and consoles. The kernel is queried silently when idle, and the summary is cached until the next execution; names are only listed for Python kernels.'
+        },
+        kernelContextBudget: {
+          minimum: 0,
+          type: 'number',
+          title: 'Kernel context budget',
+          description:
+            'At most how many tokens of the context window should be used by the kernel state summary.'
+        },
+        retrieval: {
+          type: 'string',
+          oneOf: [
+            { const: 'off', title: 'Do not include snippets from other files' },
+            {
+              const: 'open-documents',
+              title: 'Include snippets from open documents'
+            },
+            {
+              const: 'workspace',
+              title:
+                'Include snippets from open documents and files under the current directory'
+            }
+          ],
+          title: 'Snippets from other files',
+          description:
+            'Whether to include snippets from other files (such as helper functions in modules and sibling notebooks) related to the identifiers before the cursor when completing code; snippets are found with a lexical (BM25) index and labelled with the file path.'
+        },
+        retrievalSnippets: {
+          minimum: 0,
+          type: 'number',
+          title: 'Number of snippets',
+          description:
+            'At most how many snippets from other files should be included.'
+        },
+        retrievalBudget: {
+          minimum: 0,
+          type: 'number',
+          title: 'Snippets budget',
+          description:
+            'At most how many tokens of the context window should be used by snippets from other files.'
+        },
+        includeCellOutputs: {
+          title: 'Include cell outputs',
+          type: 'boolean',
+          description:
+            'Whether to include text outputs of preceding code cells in the notebook context.'
+        },
+        promptTemplates: {
+          title: 'Prompt templates',
+          description:
+            'Templates of messages sent to the model, keyed by kernel language (e.g. `python`), mimetype (e.g. `text/x-ipythongfm`) or content type (`code` or `text`), in this order of precedence. Templates can use `{language}`, `{fileName}`, `{prefix}` and `{suffix}` placeholders. Templates are not used for fill-in-the-middle prompts.',
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            properties: {
+              system: {
+                type: 'string',
+                title: 'System message'
+              },
+              user: {
+                type: 'string',
+                title: 'User message'
+              }
+            },
+            required: ['system', 'user']
+          }
+        },
+        actionTemplates: {
+          title: 'Cell action templates',
+          description:
+            'Templates of messages for explaining (`explain`), documenting (`document`) and fixing (`fix`) notebook cells. Templates can use `{language}`, `{source}` (of the cell), `{context}` (preceding cells) and `{error}` (traceback) placeholders.',
+          type: 'object',
+          properties: Object.fromEntries(
+            Object.keys(DEFAULT_ACTION_TEMPLATES).map(action => [
+              action,
+              {
+                type: 'object',
+                properties: {
+                  system: { type: 'string', title: 'System message' },
+                  user: { type: 'string', title: 'User message' }
+                },
+                required: ['system', 'user']
+              }
+            ])
+          ),
+          additionalProperties: false
         }
       },
       default: DEFAULT_SETTINGS as any
@@ -150,35 +596,134 @@ class WebLLMInlineProvider implements IInlineCompletionProvider {
 
   async configure(settings: { [property: string]: JSONValue }): Promise<void> {
     this._settings = settings as any as ISettings;
+    this._settingsHash = Private.hash(JSON.stringify(settings));
+    this._cache.maxSize =
+      this._settings.cacheSize ?? DEFAULT_SETTINGS.cacheSize;
+    this.log.size =
+      this._settings.inspectorHistory ?? DEFAULT_SETTINGS.inspectorHistory;
+    this.options.registry.setCustomModels(this._settings.customModels ?? []);
+    this.options.registry.setServerModels(this._settings.serverModels ?? []);
+    const models = this._modelsSignature();
+    if (models !== this._schemaModels) {
+      // the schema is read before the settings, so custom models need
+      // the settings to be reloaded to appear in the model selection;
+      // reloading is only requested once for each change of models
+      this._schemaModels = models;
+      this.options.refreshSchema?.();
+    }
     await this._workerStarted.promise;
-    this._switchModel(this._settings.codeModel, 'code');
-    this._switchModel(this._settings.textModel, 'text');
+    const backend = this._settings.backend ?? DEFAULT_SETTINGS.backend;
+    if (backend !== this._backend) {
+      // the worker unloads all models when switching backends
+      this._backend = backend;
+      this._currentModels = {};
+      this._cache.clear();
+    }
+    this._postMessage({
+      action: 'configure',
+      appConfig: this.options.registry.appConfig,
+      backend,
+      servers: this.options.registry.servers,
+      fim:
+        (this._settings.fillInTheMiddle ?? DEFAULT_SETTINGS.fillInTheMiddle)
+          ? this.options.registry.fim
+          : {},
+      vramLimit: this._settings.vramLimit ?? DEFAULT_SETTINGS.vramLimit,
+      idleTimeout:
+        (this._settings.idleTimeout ?? DEFAULT_SETTINGS.idleTimeout) * 60_000
+    });
+    this.manager.refresh();
+    // failures may be fixed by the new settings (or changed browser flags)
+    this._failures.clear();
+    const policy =
+      this._settings.loadingPolicy ?? DEFAULT_SETTINGS.loadingPolicy;
+    // switching to eager loading loads the selected models even if unchanged
+    const policyChanged = policy !== this._loadingPolicy;
+    this._loadingPolicy = policy;
+    this._switchModel(this._settings.codeModel, 'code', policyChanged);
+    this._switchModel(this._settings.textModel, 'text', policyChanged);
   }
 
   async fetch(
     request: CompletionHandler.IRequest,
     context: IInlineCompletionContext
   ): Promise<IInlineCompletionList<IInlineCompletionItem>> {
-    const textMimeTypes = [
-      'text/x-ipythongfm',
-      'text/x-markdown',
-      'text/plain',
-      'text/x-rst',
-      'text/x-latex',
-      'text/x-rsrc'
-    ];
-    const isText = textMimeTypes.includes(request.mimeType!);
-    // TODO add a setting to only invoke on text if explicitly asked (triggerKind = invoke)
-    const model = isText ? this._settings.textModel : this._settings.codeModel;
+    const contentType = this._contentType(request);
+    const automatic =
+      context.triggerKind !== InlineCompletionTriggerKind.Invoke;
+    const explicit = automatic ? null : this._explicitRequest;
+    this._explicitRequest = null;
+    this.log.observe(request.text.slice(0, request.offset));
+    if (automatic && (this.paused || this.isPausedIn(context.widget))) {
+      return { items: [] };
+    }
+    if (
+      automatic &&
+      isSuppressed(
+        request,
+        contentType,
+        languageSyntax(this._language(request, context)),
+        this._settings
+      )
+    ) {
+      return { items: [] };
+    }
+    const model =
+      contentType === 'text'
+        ? this._settings.textModel
+        : this._settings.codeModel;
 
-    await this._ready[model].promise;
-    this._abortPrevious();
-    this._streamPromises = new Map();
+    const cacheKey = {
+      model,
+      settingsHash: this._settingsHash,
+      prefix: request.text.slice(0, request.offset),
+      suffix: request.text.slice(request.offset)
+    };
+    const hits = explicit ? null : this._cache.lookup(cacheKey);
+    if (hits) {
+      // reuse suggestions (including these still streaming) without aborting
+      return { items: hits.map(hit => this._itemFromCache(hit)) };
+    }
+
+    const fetchId = ++this._fetchCounter;
+    const delay = this._settings.debounceDelay;
+    if (automatic && delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      if (fetchId !== this._fetchCounter) {
+        // superseded by a request made while waiting
+        return { items: [] };
+      }
+    }
+
+    if (!(await this._ensureLoaded(model))) {
+      return { items: [] };
+    }
+    this._abortPrevious(contentType);
+    const counter = this._generations[contentType];
 
-    const prefix = this._prefixFromRequest(request);
+    const profile = resolveProfile(
+      model,
+      contentType,
+      this._settings.generationProfiles ?? {}
+    );
+    const generateN = explicit?.candidates ?? this._settings.generateN;
+    if (explicit) {
+      profile.max_gen_len = explicit.maxTokens;
+    }
+    const prompt = await this._promptFromRequest(
+      request,
+      context,
+      model,
+      profile.max_gen_len ?? 0
+    );
+    if (counter !== this._generations[contentType]) {
+      // a newer request was made while the context was being tokenized
+      return { items: [] };
+    }
+    const requestId = 'R' + ++this._requestCounter;
     const items: IInlineCompletionItem[] = [];
-    const idTokens = [];
-    for (let i = 0; i < this._settings.generateN; i++) {
+    const idTokens: string[] = [];
+    for (let i = 0; i < generateN; i++) {
       const token = 'T' + ++this._tokenCounter;
       idTokens.push(token);
       items.push({
@@ -187,25 +732,128 @@ class WebLLMInlineProvider implements IInlineCompletionProvider {
         token: token
       });
     }
+    this._requests.set(requestId, {
+      model,
+      context: {
+        prefix: prompt.variables.prefix,
+        suffix: prompt.variables.suffix,
+        language: prompt.variables.language,
+        contentType
+      },
+      accepted: [],
+      pending: new Set(idTokens)
+    });
+    this._cache.add(cacheKey, idTokens);
+    const priority: RequestPriority =
+      context.triggerKind === InlineCompletionTriggerKind.Invoke
+        ? 'invoke'
+        : 'automatic';
+    const messages = promptMessages(prompt);
+    this.log.add(
+      {
+        requestId,
+        model,
+        contentType,
+        priority,
+        started: new Date().toISOString(),
+        messages,
+        prompt: promptText(prompt),
+        config: { ...profile, n: generateN }
+      },
+      idTokens,
+      cacheKey.prefix
+    );
     this._postMessage({
       model,
-      text: prefix,
-      systemPrompt:
-        'You are a completion model generating ' +
-        (isText ? 'Markdown' : 'code') +
-        ' suggestions',
-      temperature: this._settings.temperature,
-      top_p: this._settings.top_p,
-      generateN: this._settings.generateN,
-      frequency_penalty: this._settings.frequency_penalty,
-      presence_penalty: this._settings.presence_penalty,
+      messages,
+      infill: prompt.fim
+        ? { prefix: prompt.variables.prefix, suffix: prompt.variables.suffix }
+        : undefined,
+      ...profile,
+      generateN,
+      requestId,
+      priority,
       idTokens,
       action: 'generate',
-      counter: this._currentGeneration
+      lane: LANES[contentType],
+      counter
     });
     return { items };
   }
 
+  /**
+   * Get chat messages which would be sent to the model for given request,
+   * or the text of the prompt if the model is prompted for fill-in-the-middle.
+   */
+  async previewPrompt(
+    request: CompletionHandler.IRequest,
+    context: IInlineCompletionContext
+  ): Promise<ChatCompletionMessageParam[] | string> {
+    const contentType = this._contentType(request);
+    const model =
+      contentType === 'text'
+        ? this._settings.textModel
+        : this._settings.codeModel;
+    const profile = resolveProfile(
+      model,
+      contentType,
+      this._settings.generationProfiles ?? {}
+    );
+    const prompt = await this._promptFromRequest(
+      request,
+      context,
+      model,
+      profile.max_gen_len ?? 0
+    );
+    return promptText(prompt) ?? promptMessages(prompt);
+  }
+
+  /**
+   * Get model used for content of given mimetype.
+   */
+  modelFor(mimeType: string): string {
+    return this._contentType({ text: '', offset: 0, mimeType }) === 'text'
+      ? this._settings.textModel
+      : this._settings.codeModel;
+  }
+
+  /**
+   * Whether automatic suggestions are paused in given document.
+   */
+  isPausedIn(widget: Widget): boolean {
+    return this._pausedWidgets.has(widget);
+  }
+
+  /**
+   * Pause or resume automatic suggestions in given document.
+   */
+  setPausedIn(widget: Widget, paused: boolean) {
+    if (paused) {
+      this._pausedWidgets.add(widget);
+    } else {
+      this._pausedWidgets.delete(widget);
+    }
+  }
+
+  /**
+   * Switch model used for code or text until the settings change.
+   */
+  switchModel(type: 'code' | 'text', model: string) {
+    this._settings = {
+      ...this._settings,
+      ...(type === 'code' ? { codeModel: model } : { textModel: model })
+    };
+    this._switchModel(model, type);
+  }
+
+  /**
+   * Use given number of candidates and token limit for the next explicitly
+   * invoked completion request.
+   */
+  prepareExplicitRequest(options: WebLLMInlineProvider.IExplicitRequest) {
+    this._explicitRequest = options;
+  }
+
   /**
    * Stream a reply for completion identified by given `token`.
    */
@@ -225,6 +873,8 @@ class WebLLMInlineProvider implements IInlineCompletionProvider {
    */
   private _onMessageReceived(event: MessageEvent) {
     const data = event.data;
+    this.manager.handleMessage(data);
+    this.engine.handleMessage(data);
     switch (data.status) {
       case 'worker-started':
         this._msgWorkerStarted(data as WorkerMessage.IWorkerStarted);
@@ -250,8 +900,20 @@ class WebLLMInlineProvider implements IInlineCompletionProvider {
       case 'interrupted':
         this._msgInterrupted(data as WorkerMessage.IGenerationError);
         break;
+      case 'tokenized':
+        this._tokenizer.handleReply(data as WorkerMessage.ITokenized);
+        break;
+      case 'stats':
+        this._msgStats(data as WorkerMessage.IGenerationStats);
+        break;
       case 'exception':
-        this._msgException(data as WorkerMessage.IGenerationError);
+        this._msgException(data as WorkerMessage.IException);
+        break;
+      case 'unloaded':
+        this._msgUnloaded(data as WorkerMessage.IUnloaded);
+        break;
+      case 'cache-info':
+        // handled by the model manager
         break;
       default:
         console.warn('Unhandled message from worker:', data);
@@ -264,7 +926,10 @@ class WebLLMInlineProvider implements IInlineCompletionProvider {
   }
 
   private _msgInitiate(data: WorkerMessage.IInitiate) {
-    this._ready[data.model] = new PromiseDelegate();
+    // loading is attempted again, e.g. after retry from the notification
+    this._failures.delete(data.model);
+    // the delegate exists if loading was requested by `_ensureLoaded`
+    this._ready[data.model] ??= new PromiseDelegate();
     const message = `Loading ${data.model}`;
     if (this._loadingNotifications[data.model]) {
       Notification.update({
@@ -304,61 +969,309 @@ class WebLLMInlineProvider implements IInlineCompletionProvider {
 
   private _msgReady(data: WorkerMessage.IReady) {
     Notification.dismiss(this._loadingNotifications[data.model]);
-    this._ready[data.model].resolve(void 0);
+    this._ready[data.model]?.resolve(true);
+  }
+
+  private _msgUnloaded(data: WorkerMessage.IUnloaded) {
+    // the model is loaded again on the next request
+    this._ready[data.model]?.resolve(false);
+    delete this._ready[data.model];
+    const notification = this._loadingNotifications[data.model];
+    if (notification) {
+      Notification.dismiss(notification);
+      delete this._loadingNotifications[data.model];
+    }
   }
 
   private _msgUpdate(data: WorkerMessage.IUpdate) {
     this._tickWorker();
+    const request = this._requests.get(data.requestId);
+    if (!request) {
+      // chunk of a request which was already interrupted
+      return;
+    }
     const token = data.idToken;
-    const delegate = this._streamPromises.get(token);
-    if (!delegate) {
+    this.log.updateCandidate(data.requestId, token, data.output);
+    const insertText = postProcess(data.output, request.context, false);
+    this._cache.update(token, insertText, false);
+    if (!this._resolveStream(token, false, insertText)) {
       console.warn('Completion updated but stream absent');
-    } else {
-      delegate.resolve({
-        done: false,
-        response: {
-          insertText: data.output
-        }
-      });
     }
   }
 
   private _msgComplete(data: WorkerMessage.IComplete) {
+    const request = this._requests.get(data.requestId);
+    if (!request) {
+      return;
+    }
     const token = data.idToken;
-    const delegate = this._streamPromises.get(token);
-    if (!delegate) {
-      console.warn('Completion done but stream absent');
+    let insertText = postProcess(data.output, request.context, true);
+    if (isRedundant(insertText, request.accepted)) {
+      // empty and duplicate candidates are hidden rather than shown
+      insertText = '';
+      this._cache.discard(token);
     } else {
+      request.accepted.push(insertText);
+      this._cache.update(token, insertText, true);
+    }
+    this.log.updateCandidate(data.requestId, token, data.output, insertText);
+    if (!this._resolveStream(token, true, insertText)) {
+      console.warn('Completion done but stream absent');
+    }
+    request.pending.delete(token);
+    if (request.pending.size === 0) {
+      this._requests.delete(data.requestId);
+      this.log.finish(data.requestId, 'completed');
+    }
+  }
+
+  private _msgStats(data: WorkerMessage.IGenerationStats) {
+    this.monitor.handleStats(data);
+    this.log.updateTimings(data.requestId, {
+      queue: data.queueTime,
+      timeToFirstToken: data.timeToFirstToken,
+      total: data.done ? data.elapsed : null
+    });
+  }
+
+  private _msgInterrupted(data: WorkerMessage.IGenerationError) {
+    this.log.finish(data.requestId, 'cancelled');
+    this._rejectRequest(data.requestId, data.idTokens);
+  }
+
+  /**
+   * Reject streams of the request and streams reusing its candidates.
+   */
+  private _rejectRequest(requestId: string, idTokens: string[]) {
+    this.monitor.discard(requestId);
+    for (const token of idTokens) {
+      const targets = [
+        token,
+        ...(this._aliases.get(token) ?? []).map(a => a.token)
+      ];
+      for (const target of targets) {
+        const delegate = this._streamPromises.get(target);
+        if (delegate) {
+          delegate.reject(null);
+        }
+        this._streamPromises.delete(target);
+      }
+      this._aliases.delete(token);
+      this._cache.discard(token);
+    }
+    this._requests.delete(requestId);
+  }
+
+  /**
+   * Resolve stream of completion identified by `token` and streams reusing it.
+   *
+   * Returns whether the stream for `token` itself was present.
+   */
+  private _resolveStream(
+    token: string,
+    done: boolean,
+    insertText: string
+  ): boolean {
+    const targets = [{ token, skip: 0 }, ...(this._aliases.get(token) ?? [])];
+    let present = false;
+    for (const target of targets) {
+      const delegate = this._streamPromises.get(target.token);
+      if (!delegate) {
+        continue;
+      }
+      present = present || target.token === token;
       delegate.resolve({
-        done: true,
+        done,
         response: {
-          insertText: data.output
+          insertText: insertText.slice(target.skip)
         }
       });
+      if (done) {
+        this._streamPromises.delete(target.token);
+      }
     }
-    this._streamPromises.delete(token);
+    if (done) {
+      this._aliases.delete(token);
+    }
+    return present;
   }
 
-  private _msgInterrupted(data: WorkerMessage.IGenerationError) {
-    // handle interruption
-    for (const token of data.idTokens) {
-      const delegate = this._streamPromises.get(token);
-      if (delegate) {
-        delegate.reject(null);
-      }
-      this._streamPromises.delete(token);
+  /**
+   * Create completion item from cached candidate, streaming the remainder
+   * of the candidate if it is still being generated.
+   */
+  private _itemFromCache(hit: ICacheHit): IInlineCompletionItem {
+    const { candidate, skip } = hit;
+    if (candidate.done) {
+      return { insertText: candidate.text.slice(skip) };
     }
+    const token = 'T' + ++this._tokenCounter;
+    const aliases = this._aliases.get(candidate.token) ?? [];
+    aliases.push({ token, skip });
+    this._aliases.set(candidate.token, aliases);
+    return {
+      insertText: candidate.text.slice(skip),
+      isIncomplete: true,
+      token
+    };
   }
 
   private _msgException(data: WorkerMessage.IException) {
-    Notification.error(`Worker error: ${data.error?.message}`);
     console.error(data);
+    const { code, message } = data.error;
+    if (data.requestId) {
+      const ownRequest = this._requests.has(data.requestId);
+      this.log.finish(data.requestId, 'failed', `${code}: ${message}`);
+      this._rejectRequest(data.requestId, data.idTokens ?? []);
+      // requests made through the engine are rejected by the engine
+      if (ownRequest) {
+        Notification.error(
+          `${ERROR_LABELS[code]} (${data.model}): ${message}`,
+          {
+            autoClose: 5000,
+            actions: this._recoveryActions(code, null)
+          }
+        );
+      }
+      return;
+    }
+    if (!data.model) {
+      Notification.error(`${ERROR_LABELS[code]}: ${message}`);
+      return;
+    }
+    const model = data.model;
+    // requests waiting for the model get no suggestions, and no further
+    // attempts to load it are made until retried
+    this._failures.set(model, data.error);
+    this._ready[model]?.resolve(false);
+    delete this._ready[model];
+    // requests sent before the model failed to load (e.g. after it was
+    // unloaded when idle) are not reported individually by the worker
+    for (const [requestId, request] of this._requests) {
+      if (request.model === model) {
+        this.log.finish(requestId, 'failed', `${code}: ${message}`);
+        this._rejectRequest(requestId, [...request.pending]);
+      }
+    }
+    const notification = this._loadingNotifications[model];
+    if (notification) {
+      Notification.dismiss(notification);
+      delete this._loadingNotifications[model];
+    }
+    if (data.preflight) {
+      this._fallBack(model, data.preflight);
+      return;
+    }
+    Notification.error(`${ERROR_LABELS[code]} (${model}): ${message}`, {
+      autoClose: false,
+      actions: this._recoveryActions(code, model)
+    });
+  }
+
+  /**
+   * Actions offered in notifications about failures.
+   *
+   * @param model - model to load again, if loading failed
+   */
+  private _recoveryActions(
+    code: ErrorCode,
+    model: string | null
+  ): Notification.IAction[] {
+    const actions: Notification.IAction[] = [];
+    if (model) {
+      actions.push({
+        label: 'Retry',
+        caption: `Load ${model} again`,
+        callback: () => this._postMessage({ action: 'initializeModel', model })
+      });
+    }
+    if (code === 'device-lost' || code === 'out-of-memory') {
+      actions.push({
+        label: 'Reload Page',
+        caption: 'Reload the page to reset the GPU device',
+        callback: () => window.location.reload()
+      });
+    }
+    return actions;
+  }
+
+  /**
+   * Replace model which cannot run on the device with the first fallback
+   * model which passes the requirements check, explaining why.
+   */
+  private _fallBack(model: string, report: IPreflightReport) {
+    const vramLimit = this._settings.vramLimit ?? DEFAULT_SETTINGS.vramLimit;
+    const replacements: string[] = [];
+    for (const type of ['code', 'text'] as const) {
+      if (this._currentModels[type] !== model) {
+        continue;
+      }
+      const fallback = (this._settings.fallbackModels ?? []).find(candidate => {
+        const record = this.options.registry.get(candidate);
+        return (
+          record &&
+          !this._failures.has(candidate) &&
+          record.tags.includes(type) &&
+          (record.server ||
+            checkRequirements(record, report.adapter, vramLimit).length === 0)
+        );
+      });
+      if (fallback) {
+        this.switchModel(type, fallback);
+        replacements.push(`${fallback} for ${type}`);
+      }
+    }
+    const device = report.adapter.description
+      ? ` (${report.adapter.description})`
+      : '';
+    const diagnosis = `${model} cannot run on this device${device}: ${report.problems.join(
+      '; '
+    )}.`;
+    if (replacements.length > 0) {
+      Notification.warning(
+        `${diagnosis} Using ${replacements.join(' and ')} instead.`,
+        { autoClose: false }
+      );
+    } else {
+      Notification.error(
+        `${diagnosis} Choose a smaller model in the Inline Completer settings.`,
+        { autoClose: false }
+      );
+    }
+  }
+
+  /**
+   * Options of model selection in user settings: models with given tag, or
+   * any identifier, so that settings naming models which are not known yet
+   * (e.g. custom models before the settings are loaded) stay valid.
+   */
+  private _modelOptions(tag: ModelTag): ISettingRegistry.IProperty[] {
+    return [
+      {
+        title: 'Listed model',
+        oneOf: [
+          { const: 'none', title: 'No model' },
+          ...this.options.registry
+            .models(tag)
+            .map(record => this._formatModelOption(record))
+        ]
+      },
+      {
+        title: 'Other model',
+        description: 'Identifier of a model which is not listed.',
+        type: 'string'
+      }
+    ];
   }
 
   /**
    * Summarise model for display in user settings.
    */
-  private _formatModelOptions(model: ModelRecord) {
+  private _formatModelOption(model: ITaggedModelRecord) {
+    const details: string[] = [];
+    if (this.options.registry.capabilities(model.model_id).fim) {
+      details.push('fill-in-the-middle');
+    }
     const requirements: string[] = [];
     if (model.required_features && model.required_features.length > 0) {
       requirements.push(...model.required_features);
@@ -366,64 +1279,294 @@ class WebLLMInlineProvider implements IInlineCompletionProvider {
     if (model.vram_required_MB) {
       requirements.push(model.vram_required_MB + ' MB VRAM');
     }
-    const modelName =
-      model.model_id +
-      (requirements ? ' (' + requirements.join(', ') + ' required)' : '');
+    if (requirements.length > 0) {
+      details.push(requirements.join(', ') + ' required');
+    }
     return {
       const: model.model_id,
-      title: `${modelName}`
+      title:
+        model.model_id + (details.length > 0 ? ` (${details.join('; ')})` : '')
     };
   }
 
   /**
-   * Send a tick to the worker with number of current generation counter.
+   * Signature of the models listed in the model selection.
+   */
+  private _modelsSignature(): string {
+    return Private.hash(
+      JSON.stringify(
+        this.options.registry
+          .models()
+          .map(record => [
+            record.model_id,
+            record.tags,
+            record.vram_required_MB,
+            record.required_features,
+            this.options.registry.capabilities(record.model_id).fim
+          ])
+      )
+    );
+  }
+
+  /**
+   * Send a tick to the worker with numbers of current generation counters.
    */
   private _tickWorker() {
-    Atomics.store(this._sharedArray, 0, this._currentGeneration);
-    Atomics.notify(this._sharedArray, 0, 1);
+    for (const contentType of ['code', 'text'] as const) {
+      this._counterSender.send(
+        LANES[contentType],
+        this._generations[contentType]
+      );
+    }
   }
 
   /**
-   * Communicate to the worker that previous suggestion no longer needs to be generated.
+   * Communicate to the worker that previous suggestion for the content type
+   * no longer needs to be generated.
    */
-  private _abortPrevious() {
-    this._currentGeneration++;
+  private _abortPrevious(contentType: 'code' | 'text') {
+    this._generations[contentType]++;
     this._tickWorker();
   }
 
   /**
-   * Extract prefix from request, accounting for context window limit.
+   * Determine whether request is for code or text (prose) completion.
    */
-  private _prefixFromRequest(request: CompletionHandler.IRequest): string {
-    const textBefore = request.text.slice(0, request.offset);
-    const prefix = textBefore.slice(
-      -Math.min(this._settings.maxContextWindow, textBefore.length)
+  private _contentType(request: CompletionHandler.IRequest): 'code' | 'text' {
+    return TEXT_MIME_TYPES.includes(request.mimeType!) ? 'text' : 'code';
+  }
+
+  /**
+   * Determine language of request, using kernel language in notebooks.
+   */
+  private _language(
+    request: CompletionHandler.IRequest,
+    context: IInlineCompletionContext
+  ): string {
+    const widget = context.widget;
+    const mimeType = request.mimeType ?? '';
+    if (
+      this._contentType(request) === 'code' &&
+      widget instanceof NotebookPanel &&
+      widget.content.model
+    ) {
+      const language = notebookLanguage(widget.content.model);
+      if (language) {
+        return language;
+      }
+    } else if (mimeType === 'text/x-ipythongfm') {
+      return 'markdown';
+    }
+    return mimeType.replace(/^text\/(x-)?/, '');
+  }
+
+  /**
+   * Build prompt for request, selecting template matching language and mimetype.
+   *
+   * The context is limited so that the prompt and up to `maxGenLen` new tokens
+   * fit in the context window of the model.
+   */
+  private async _promptFromRequest(
+    request: CompletionHandler.IRequest,
+    context: IInlineCompletionContext,
+    model: string,
+    maxGenLen: number
+  ): Promise<IPrompt> {
+    const contentType = this._contentType(request);
+    const widget = context.widget;
+    const mimeType = request.mimeType ?? '';
+    const language = this._language(request, context);
+    const template = selectTemplate(
+      this._settings.promptTemplates ?? DEFAULT_TEMPLATES,
+      contentType === 'code' ? [language, mimeType] : [mimeType],
+      contentType
     );
-    return prefix;
+    const fimTokens =
+      (this._settings.fillInTheMiddle ?? DEFAULT_SETTINGS.fillInTheMiddle)
+        ? this.options.registry.capabilities(model).fim
+        : undefined;
+    const fileName =
+      widget instanceof DocumentWidget
+        ? PathExt.basename(widget.context.path)
+        : '';
+
+    const measure =
+      model === 'none' ? CHARACTER_MEASURE : this._tokenizer.measure(model);
+    const overhead = fimTokens
+      ? formatFim(fimTokens, '', '')
+      : renderTemplate(template.system + template.user, {
+          language,
+          fileName,
+          prefix: '',
+          suffix: ''
+        });
+    const [overheadTokens] = await measure.count([overhead]);
+    const contextWindowSize = await measure.contextWindowSize();
+    const available =
+      contextWindowSize === null
+        ? Infinity
+        : contextWindowSize - overheadTokens - maxGenLen;
+    const { prefix, suffix } = await this._contextFromRequest(
+      request,
+      context,
+      measure,
+      available
+    );
+
+    return {
+      fim: fimTokens,
+      template,
+      variables: {
+        language,
+        fileName,
+        prefix,
+        suffix
+      }
+    };
+  }
+
+  /**
+   * Build the context for request, including preceding cells in notebooks.
+   */
+  private async _contextFromRequest(
+    request: CompletionHandler.IRequest,
+    context: IInlineCompletionContext,
+    measure: ITokenMeasure,
+    available: number
+  ): Promise<IMeasuredWindows> {
+    const windows = await windowsFromRequest(
+      request,
+      {
+        prefix: this._settings.maxContextWindow,
+        suffix: this._settings.maxSuffixWindow,
+        total: available
+      },
+      measure
+    );
+    let budget =
+      Math.min(
+        this._settings.maxContextWindow,
+        available - windows.suffixTokens
+      ) - windows.prefixTokens;
+    const session = (context.widget as { sessionContext?: ISessionContext })
+      .sessionContext;
+    let kernelSummary = '';
+    if (
+      this._settings.kernelContext &&
+      this._contentType(request) === 'code' &&
+      session &&
+      budget > 0
+    ) {
+      kernelSummary = await this._kernelContext.summarize(session, {
+        prefix: windows.prefix,
+        budget: Math.min(budget, this._settings.kernelContextBudget),
+        measure,
+        syntax: languageSyntax(this._language(request, context))
+      });
+      if (kernelSummary) {
+        const [summaryTokens] = await measure.count([kernelSummary]);
+        budget -= summaryTokens;
+      }
+    }
+    const scope = this._settings.retrieval ?? DEFAULT_SETTINGS.retrieval;
+    let snippets = '';
+    if (
+      scope !== 'off' &&
+      this._contentType(request) === 'code' &&
+      budget > 0
+    ) {
+      snippets = await this.options.retrieval.snippets({
+        path:
+          context.widget instanceof DocumentWidget
+            ? context.widget.context.path
+            : null,
+        prefix: windows.prefix,
+        scope,
+        count: this._settings.retrievalSnippets,
+        budget: Math.min(budget, this._settings.retrievalBudget),
+        measure,
+        syntax: languageSyntax(this._language(request, context))
+      });
+      if (snippets) {
+        const [snippetTokens] = await measure.count([snippets]);
+        budget -= snippetTokens;
+      }
+    }
+    // only prepend preceding cells if the entire current cell prefix fitted
+    if (
+      this._settings.notebookContext &&
+      windows.complete &&
+      budget > 0 &&
+      context.widget instanceof NotebookPanel
+    ) {
+      windows.prefix =
+        (await buildNotebookContext(context.widget.content, {
+          budget,
+          includeOutputs: this._settings.includeCellOutputs,
+          measure
+        })) + windows.prefix;
+    }
+    windows.prefix = snippets + kernelSummary + windows.prefix;
+    return windows;
   }
 
   /**
    * A type-guarded shorthand to post message to the worker.
    */
-  private _postMessage(message: ClientMessage.Message) {
-    this.options.worker.postMessage(message);
+  private _postMessage(
+    message: ClientMessage.Message,
+    transfer: Transferable[] = []
+  ) {
+    this.options.worker.postMessage(message, transfer);
+  }
+
+  /**
+   * Wait until the model is loaded, requesting loading unless the loading
+   * policy is manual; resolves to whether the model can be used.
+   */
+  private async _ensureLoaded(model: string): Promise<boolean> {
+    if (model === 'none') {
+      return false;
+    }
+    if (this._failures.has(model)) {
+      return false;
+    }
+    if (!this._ready[model]) {
+      const policy =
+        this._settings.loadingPolicy ?? DEFAULT_SETTINGS.loadingPolicy;
+      if (policy === 'manual') {
+        return false;
+      }
+      this._ready[model] = new PromiseDelegate();
+      this._postMessage({ action: 'initializeModel', model });
+    }
+    return this._ready[model].promise;
   }
 
   /**
    * Switch generative model for given `type` of content.
+   *
+   * @param policyChanged - whether to apply the loading policy even if the
+   *   model did not change
    */
-  private _switchModel(newModel: string, type: 'code' | 'text') {
+  private _switchModel(
+    newModel: string,
+    type: 'code' | 'text',
+    policyChanged = false
+  ) {
     const oldModel = this._currentModels[type];
-    if (oldModel === newModel) {
+    if (oldModel === newModel && !policyChanged) {
       return;
     }
-    if (oldModel) {
+    if (oldModel && oldModel !== newModel) {
       this._postMessage({
         action: 'disposeModel',
         model: oldModel
       });
     }
-    if (newModel !== 'none') {
+    const policy =
+      this._settings.loadingPolicy ?? DEFAULT_SETTINGS.loadingPolicy;
+    if (newModel !== 'none' && policy === 'eager') {
       this._postMessage({
         action: 'initializeModel',
         model: newModel
@@ -432,26 +1575,105 @@ class WebLLMInlineProvider implements IInlineCompletionProvider {
     this._currentModels[type] = newModel;
   }
 
-  private _currentGeneration = 0;
+  private _aliases: Map<string, { token: string; skip: number }[]> = new Map();
+  private _backend: BackendName = DEFAULT_SETTINGS.backend;
+  private _cache = new CompletionCache({
+    maxSize: DEFAULT_SETTINGS.cacheSize
+  });
+  private _counterSender: ICounterSender;
+  private _generations: Record<'code' | 'text', number> = {
+    code: 0,
+    text: 0
+  };
+  private _explicitRequest: WebLLMInlineProvider.IExplicitRequest | null = null;
+  private _fetchCounter = 0;
+  private _kernelContext = new KernelContext();
+  private _loadingPolicy: ISettings['loadingPolicy'] =
+    DEFAULT_SETTINGS.loadingPolicy;
   private _currentModels: {
     code?: string;
     text?: string;
   } = {};
   private _loadingNotifications: Record<string, string> = {};
-  private _ready: Record<string, PromiseDelegate<void>> = {};
+  private _requests: Map<string, Private.IRequestState> = new Map();
+  private _requestCounter = 0;
+  private _pausedWidgets: WeakSet<Widget> = new WeakSet();
+  /**
+   * Promises resolving to whether the model loaded, by model identifier;
+   * absent if the model was not requested or was unloaded.
+   */
+  private _ready: Record<string, PromiseDelegate<boolean>> = {};
   private _settings: ISettings = DEFAULT_SETTINGS;
-  private _sharedArray: Int32Array;
+  private _settingsHash = '';
+  /**
+   * Signature of the models listed when the schema was last read.
+   */
+  private _schemaModels = '';
   private _streamPromises: Map<string, PromiseDelegate<IStream>> = new Map();
   private _tokenCounter = 0;
+  /**
+   * Errors of models which failed to load since settings last changed.
+   */
+  private _failures: Map<string, IErrorInfo> = new Map();
+  private _tokenizer = new TokenCounter({
+    postMessage: message => this._postMessage(message)
+  });
   private _workerStarted = new PromiseDelegate();
 }
 
 namespace WebLLMInlineProvider {
   export interface IOptions {
     worker: Worker;
+    registry: ModelRegistry;
+    /**
+     * Source of snippets from other documents.
+     */
+    retrieval: RetrievalContext;
+    /**
+     * Read the schema again, called when models listed in the model
+     * selection change.
+     */
+    refreshSchema?: () => void;
+  }
+
+  /**
+   * Overrides for an explicitly requested completion.
+   */
+  export interface IExplicitRequest {
+    /**
+     * Number of candidates to generate.
+     */
+    candidates: number;
+    /**
+     * Maximum number of tokens to generate per candidate.
+     */
+    maxTokens: number;
   }
 }
 
+namespace CommandIDs {
+  export const previewPrompt = 'web-llm-completer:preview-prompt';
+  export const switchCodeModel = 'web-llm-completer:switch-code-model';
+  export const switchTextModel = 'web-llm-completer:switch-text-model';
+  export const togglePaused = 'web-llm-completer:toggle-paused';
+  export const togglePausedInDocument =
+    'web-llm-completer:toggle-paused-in-document';
+  export const preloadModel = 'web-llm-completer:preload-model';
+  export const unloadModel = 'web-llm-completer:unload-model';
+  export const requestCompletions = 'web-llm-completer:request-completions';
+  export const openChat = 'web-llm-completer:open-chat';
+  export const openInspector = 'web-llm-completer:open-inspector';
+  export const explainCell = 'web-llm-completer:explain-cell';
+  export const documentCell = 'web-llm-completer:document-cell';
+  export const fixCell = 'web-llm-completer:fix-cell';
+}
+
+/**
+ * Plugin holding settings of inline completion providers.
+ */
+const INLINE_COMPLETER_PLUGIN =
+  '@jupyterlab/completer-extension:inline-completer';
+
 interface IStream {
   done: boolean;
   response: IInlineCompletionItem;
@@ -460,19 +1682,446 @@ interface IStream {
 /**
  * Initialization data for the @jupyterlab/web-llm-completer extension.
  */
-const plugin: JupyterFrontEndPlugin<void> = {
+const plugin: JupyterFrontEndPlugin<IWebLLMEngine> = {
   id: '@jupyterlab/web-llm-completer:plugin',
   description: 'An in-browser AI completion provider for JupyterLab.',
   requires: [ICompletionProviderManager],
+  provides: IWebLLMEngine,
+  optional: [
+    ICommandPalette,
+    ISettingRegistry,
+    IStatusBar,
+    INotebookTracker,
+    IRenderMimeRegistry
+  ],
   autoStart: true,
   activate: (
     app: JupyterFrontEnd,
-    providerManager: ICompletionProviderManager
-  ) => {
+    providerManager: ICompletionProviderManager,
+    palette: ICommandPalette | null,
+    settingRegistry: ISettingRegistry | null,
+    statusBar: IStatusBar | null,
+    notebooks: INotebookTracker | null,
+    rendermime: IRenderMimeRegistry | null
+  ): IWebLLMEngine => {
     const worker = new Worker(new URL('./worker.js', import.meta.url));
-    const provider = new WebLLMInlineProvider({ worker });
+    const registry = new ModelRegistry();
+    const retrieval = new RetrievalContext({
+      contents: app.serviceManager.contents,
+      openDocuments: () => Private.openDocuments(app)
+    });
+    const provider = new WebLLMInlineProvider({
+      worker,
+      registry,
+      retrieval,
+      refreshSchema: settingRegistry
+        ? () => void settingRegistry.reload(INLINE_COMPLETER_PLUGIN)
+        : undefined
+    });
     providerManager.registerInlineProvider(provider);
+
+    const panel = new ModelManagerPanel({ manager: provider.manager });
+    app.shell.add(panel, 'left', { rank: 1000 });
+
+    const chat = new ChatPanel({
+      engine: provider.engine,
+      rendermime,
+      activeEditor: () => Private.activeEditor(app.shell.currentWidget),
+      activeNotebook: () =>
+        app.shell.currentWidget instanceof NotebookPanel
+          ? app.shell.currentWidget
+          : null
+    });
+    app.shell.add(chat, 'right', { rank: 1000 });
+
+    const inspector = new InspectorPanel({ log: provider.log });
+    app.shell.add(inspector, 'right', { rank: 1001 });
+
+    const actions = new CellActions({
+      engine: provider.engine,
+      chat,
+      showChat: () => app.shell.activateById(chat.id),
+      model: mimeType => {
+        const model = provider.modelFor(mimeType);
+        return model === 'none' ? null : model;
+      },
+      templates: () => provider.settings.actionTemplates ?? {},
+      contextBudget: () =>
+        provider.settings.maxContextWindow ?? DEFAULT_SETTINGS.maxContextWindow
+    });
+    const cellActionCommands: Record<CellAction, string> = {
+      explain: CommandIDs.explainCell,
+      document: CommandIDs.documentCell,
+      fix: CommandIDs.fixCell
+    };
+    const cellActionLabels: Record<CellAction, string> = {
+      explain: 'Explain Cell',
+      document: 'Add Docstrings and Comments',
+      fix: 'Fix Error'
+    };
+    // shown in the notebook toolbar, where the full labels take too much room
+    const cellActionShortLabels: Record<CellAction, string> = {
+      explain: 'Explain',
+      document: 'Document',
+      fix: 'Fix'
+    };
+    if (notebooks) {
+      for (const [action, command] of Object.entries(cellActionCommands) as [
+        CellAction,
+        string
+      ][]) {
+        app.commands.addCommand(command, {
+          label: cellActionLabels[action],
+          caption: 'Use the language model on the active cell',
+          isEnabled: () => actions.isEnabled(action, notebooks.activeCell),
+          execute: () => {
+            const notebook = notebooks.currentWidget;
+            if (notebook) {
+              return actions.run(action, notebook);
+            }
+          }
+        });
+        app.contextMenu.addItem({
+          command,
+          selector: '.jp-Notebook .jp-CodeCell',
+          rank: 30
+        });
+        palette?.addItem({ command, category: 'Inline Completer' });
+      }
+      const refreshActions = () => {
+        for (const command of Object.values(cellActionCommands)) {
+          app.commands.notifyCommandChanged(command);
+        }
+      };
+      notebooks.activeCellChanged.connect(refreshActions);
+      NotebookActions.executed.connect(refreshActions);
+      app.docRegistry.addWidgetExtension('Notebook', {
+        createNew: (panel: NotebookPanel) => {
+          for (const [action, command] of Object.entries(cellActionCommands)) {
+            const button = new CommandToolbarButton({
+              commands: app.commands,
+              id: command,
+              label: cellActionShortLabels[action as CellAction]
+            });
+            if (
+              !panel.toolbar.insertBefore('spacer', `web-llm-${action}`, button)
+            ) {
+              panel.toolbar.addItem(`web-llm-${action}`, button);
+            }
+          }
+        }
+      });
+    }
+
+    app.commands.addCommand(CommandIDs.previewPrompt, {
+      label: 'Preview Inline Completion Prompt',
+      caption: 'Show the prompt which would be sent to the model',
+      isEnabled: () => !!Private.activeEditor(app.shell.currentWidget),
+      execute: async () => {
+        const widget = app.shell.currentWidget;
+        const editor = Private.activeEditor(widget);
+        if (!widget || !editor) {
+          return;
+        }
+        const preview = await provider.previewPrompt(
+          {
+            text: editor.model.sharedModel.getSource(),
+            offset: editor.getOffsetAt(editor.getCursorPosition()),
+            mimeType: editor.model.mimeType
+          },
+          { widget, triggerKind: InlineCompletionTriggerKind.Invoke }
+        );
+        const body = new Widget();
+        body.addClass('jp-web-llm-prompt-preview');
+        const messages =
+          typeof preview === 'string'
+            ? [{ role: 'fill-in-the-middle', content: preview }]
+            : preview;
+        for (const message of messages) {
+          const header = document.createElement('h4');
+          header.textContent = message.role;
+          const content = document.createElement('pre');
+          content.textContent =
+            typeof message.content === 'string' ? message.content : '';
+          body.node.append(header, content);
+        }
+        return showDialog({
+          title: 'Prompt preview',
+          body,
+          buttons: [Dialog.okButton()]
+        });
+      }
+    });
+
+    for (const type of ['code', 'text'] as const) {
+      const command =
+        type === 'code'
+          ? CommandIDs.switchCodeModel
+          : CommandIDs.switchTextModel;
+      app.commands.addCommand(command, {
+        label: `Switch ${type === 'code' ? 'Code' : 'Text'} Completion Model…`,
+        caption: `Choose model used for ${type} suggestions; pass \`persist: true\` to store the choice in settings`,
+        execute: async args => {
+          const model =
+            (args.model as string | undefined) ??
+            (await Private.pickModel(registry, type, 'Switch model'));
+          if (!model) {
+            return;
+          }
+          if (args.persist && settingRegistry) {
+            // the provider is reconfigured once the setting is saved
+            const settings = await settingRegistry.load(
+              INLINE_COMPLETER_PLUGIN
+            );
+            const providers = {
+              ...((settings.get('providers').user as Record<string, any>) ?? {})
+            };
+            providers[provider.identifier] = {
+              ...providers[provider.identifier],
+              [`${type}Model`]: model
+            };
+            await settings.set('providers', providers);
+          } else {
+            provider.switchModel(type, model);
+          }
+        }
+      });
+    }
+
+    app.commands.addCommand(CommandIDs.togglePaused, {
+      label: 'Pause Inline Completions',
+      caption: 'Pause automatic suggestions in all documents',
+      isToggled: () => provider.paused,
+      execute: () => {
+        provider.paused = !provider.paused;
+        app.commands.notifyCommandChanged(CommandIDs.togglePaused);
+      }
+    });
+
+    app.commands.addCommand(CommandIDs.togglePausedInDocument, {
+      label: 'Pause Inline Completions in Current Document',
+      caption: 'Pause automatic suggestions in the current document',
+      isEnabled: () => !!Private.activeEditor(app.shell.currentWidget),
+      isToggled: () =>
+        !!app.shell.currentWidget &&
+        provider.isPausedIn(app.shell.currentWidget),
+      execute: () => {
+        const widget = app.shell.currentWidget;
+        if (!widget) {
+          return;
+        }
+        provider.setPausedIn(widget, !provider.isPausedIn(widget));
+        app.commands.notifyCommandChanged(CommandIDs.togglePausedInDocument);
+      }
+    });
+
+    app.commands.addCommand(CommandIDs.preloadModel, {
+      label: 'Preload Completion Model…',
+      caption: 'Download and compile a model ahead of use',
+      execute: async args => {
+        const model =
+          (args.model as string | undefined) ??
+          (await Private.pickModel(registry, null, 'Preload model'));
+        if (model) {
+          provider.manager.preload(model);
+        }
+      }
+    });
+
+    app.commands.addCommand(CommandIDs.unloadModel, {
+      label: 'Unload Completion Model…',
+      caption: 'Release GPU memory used by a model, keeping it in the cache',
+      execute: async args => {
+        const model =
+          (args.model as string | undefined) ??
+          (await Private.pickModel(
+            registry,
+            null,
+            'Unload model',
+            model => provider.manager.status(model).state === 'loaded'
+          ));
+        if (model) {
+          provider.manager.unload(model);
+        }
+      }
+    });
+
+    app.commands.addCommand(CommandIDs.requestCompletions, {
+      label: 'Request Inline Completions',
+      caption:
+        'Generate more candidates with a larger token limit than automatic suggestions',
+      execute: args => {
+        provider.prepareExplicitRequest({
+          candidates: (args.candidates as number | undefined) ?? 4,
+          maxTokens: (args.maxTokens as number | undefined) ?? 512
+        });
+        return app.commands.execute('inline-completer:invoke');
+      }
+    });
+    app.commands.addKeyBinding({
+      command: CommandIDs.requestCompletions,
+      keys: ['Alt Shift \\'],
+      selector: '.jp-mod-completer-enabled'
+    });
+
+    app.commands.addCommand(CommandIDs.openChat, {
+      label: 'Open Language Model Chat',
+      caption: 'Chat with the model selected for text',
+      execute: () => app.shell.activateById(chat.id)
+    });
+
+    app.commands.addCommand(CommandIDs.openInspector, {
+      label: 'Open Inline Completion Inspector',
+      caption:
+        'Show prompts, generated text and timings of recent completion requests',
+      execute: () => app.shell.activateById(inspector.id)
+    });
+
+    for (const command of [
+      CommandIDs.openChat,
+      CommandIDs.openInspector,
+      CommandIDs.previewPrompt,
+      CommandIDs.switchCodeModel,
+      CommandIDs.switchTextModel,
+      CommandIDs.togglePaused,
+      CommandIDs.togglePausedInDocument,
+      CommandIDs.preloadModel,
+      CommandIDs.unloadModel,
+      CommandIDs.requestCompletions
+    ]) {
+      palette?.addItem({ command, category: 'Inline Completer' });
+    }
+
+    if (statusBar) {
+      const status = new CompleterStatus({
+        manager: provider.manager,
+        monitor: provider.monitor,
+        commands: app.commands,
+        activeModel: () => {
+          const editor = Private.activeEditor(app.shell.currentWidget);
+          return editor ? provider.modelFor(editor.model.mimeType) : null;
+        },
+        toggles: [CommandIDs.togglePaused, CommandIDs.togglePausedInDocument]
+      });
+      statusBar.registerStatusItem('@jupyterlab/web-llm-completer:status', {
+        item: status,
+        align: 'left',
+        rank: 100
+      });
+      app.shell.currentChanged?.connect(() => status.refresh());
+      notebooks?.activeCellChanged.connect(() => status.refresh());
+    }
+
+    return provider.engine;
   }
 };
 
+namespace Private {
+  /**
+   * Ask user to choose a model, optionally restricted to models with given tag.
+   */
+  export async function pickModel(
+    registry: ModelRegistry,
+    tag: 'code' | 'text' | null,
+    title: string,
+    filter: (model: string) => boolean = () => true
+  ): Promise<string | null> {
+    const items = registry
+      .models(tag ?? undefined)
+      .map(model => model.model_id)
+      .filter(filter);
+    if (items.length === 0) {
+      return null;
+    }
+    const result = await InputDialog.getItem({ title, items });
+    return result.button.accept ? result.value : null;
+  }
+
+  /**
+   * State of a generation request, shared by its candidates.
+   */
+  export interface IRequestState {
+    model: string;
+    context: IProcessingContext;
+    /**
+     * Text of candidates which were completed and shown.
+     */
+    accepted: string[];
+    /**
+     * Tokens of candidates which are still being generated.
+     */
+    pending: Set<string>;
+  }
+
+  /**
+   * Compute a short, non-cryptographic hash of a string.
+   */
+  export function hash(text: string): string {
+    let value = 0;
+    for (let i = 0; i < text.length; i++) {
+      value = (Math.imul(31, value) + text.charCodeAt(i)) | 0;
+    }
+    return (value >>> 0).toString(36);
+  }
+
+  /**
+   * Get the editor with focus in a notebook or file editor widget.
+   */
+  export function activeEditor(
+    widget: Widget | null
+  ): CodeEditor.IEditor | null {
+    if (widget instanceof NotebookPanel) {
+      return widget.content.activeCell?.editor ?? null;
+    }
+    if (widget instanceof DocumentWidget) {
+      return (widget.content as { editor?: CodeEditor.IEditor }).editor ?? null;
+    }
+    return null;
+  }
+
+  /**
+   * Get documents open in the main area; their text is only read when
+   * their version differs from the indexed one.
+   */
+  export function openDocuments(app: JupyterFrontEnd): IOpenDocument[] {
+    const documents: IOpenDocument[] = [];
+    for (const widget of app.shell.widgets('main')) {
+      if (!(widget instanceof DocumentWidget) || !widget.context.isReady) {
+        continue;
+      }
+      documents.push({
+        path: widget.context.path,
+        version: documentVersion(widget.context.model),
+        text: () =>
+          widget instanceof NotebookPanel
+            ? widget.content.widgets
+                .filter(cell => cell.model.type === 'code')
+                .map(cell => cell.model.sharedModel.getSource())
+                .join('\n\n')
+            : widget.context.model.toString()
+      });
+    }
+    return documents;
+  }
+
+  /**
+   * Get version of document model, which changes with its content; versions
+   * are unique across models so that a reopened document is indexed anew.
+   */
+  export function documentVersion(model: DocumentRegistry.IModel): number {
+    let version = versions.get(model);
+    if (version === undefined) {
+      version = ++lastVersion;
+      versions.set(model, version);
+      model.contentChanged.connect(() => versions.set(model, ++lastVersion));
+    }
+    return version;
+  }
+
+  const versions = new WeakMap<DocumentRegistry.IModel, number>();
+  let lastVersion = 0;
+}
+
+export * from './tokens';
+export { ErrorCode, ModelError } from './errors';
 export default plugin;
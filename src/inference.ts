@@ -0,0 +1,1050 @@
+import type {
+  ClientMessage as Message,
+  RequestPriority,
+  WorkerMessage
+} from './types';
+import {
+  ICounterReceiver,
+  MessagePortReceiver,
+  SharedBufferReceiver
+} from './transport';
+
+import {
+  BackendName,
+  IChatCompletionChunk,
+  IGenerationRequest,
+  IInferenceBackend,
+  IServerEndpoint,
+  MockBackend,
+  OpenAIBackend
+} from './backend';
+import {
+  checkRequirements,
+  IAdapterReport,
+  queryAdapter,
+  UnsupportedModelError
+} from './hardware';
+import { errorInfo, ModelError } from './errors';
+import type { IFimTokens } from './models';
+
+import type * as webllm from '@mlc-ai/web-llm';
+import type {
+  AppConfig,
+  ChatCompletionChunk,
+  ChatCompletionRequestStreaming,
+  ChatOptions,
+  EngineInterface,
+  InitProgressReport,
+  ModelRecord
+} from '@mlc-ai/web-llm';
+
+/**
+ * Handler of messages sent to the worker, loading models and streaming
+ * generated candidates back to the main thread.
+ */
+export class InferenceWorker {
+  constructor(protected options: InferenceWorker.IOptions) {}
+
+  async handleMessage(event: MessageEvent) {
+    const data = event.data;
+    switch (data.action) {
+      case 'generate':
+        return this._generate(data as Message.IGenerate);
+      case 'configure':
+        return this._configure(data as Message.IConfigure);
+      case 'initializeBuffer':
+        return this._initializeBuffer(data as Message.IInitializeBuffer);
+      case 'initializeChannel':
+        return this._initializeChannel(data as Message.IInitializeChannel);
+      case 'initializeModel':
+        this._initializeModel(data as Message.IInitializeModel);
+        return;
+      case 'disposeModel':
+        return this._disposeModel(data as Message.IDisposeModel);
+      case 'cancelLoading':
+        return this._cancelLoading(data as Message.ICancelLoading);
+      case 'queryCache':
+        return this._queryCache(data as Message.IQueryCache);
+      case 'deleteCache':
+        return this._deleteCache(data as Message.IDeleteCache);
+      case 'tokenize':
+        return this._tokenize(data as Message.ITokenize);
+      default:
+        console.error('Unhandled message', event);
+        break;
+    }
+  }
+
+  private _generate(data: Message.IGenerate) {
+    const counter = this._counter;
+    if (counter === null) {
+      this.options.postMessage({
+        status: 'exception',
+        model: data.model,
+        requestId: data.requestId,
+        idTokens: data.idTokens,
+        error: {
+          code: 'generation-failed',
+          message:
+            'Cannot generate before `initializeBuffer` or `initializeChannel` message got processed'
+        }
+      } as WorkerMessage.IException);
+      return;
+    }
+    this._touch(data.model);
+    const handle = new CancellationHandle(counter, data.lane, data.counter);
+    const received = performance.now();
+    this._scheduler.schedule(data.model, {
+      priority: data.priority,
+      handle,
+      run: () => this._runGeneration(data, handle, received),
+      skip: () => this._postInterrupted(data)
+    });
+  }
+
+  private async _runGeneration(
+    data: Message.IGenerate,
+    handle: CancellationHandle,
+    received: number
+  ) {
+    const { model: modelName, requestId, idTokens } = data;
+    let engine: IInferenceBackend;
+    const model = this._initializeModel({ model: modelName });
+    try {
+      engine = await model.instance;
+    } catch (e) {
+      // the loading error was posted for the model, failing its requests
+      if (model.cancelled) {
+        this._postInterrupted(data);
+      }
+      return;
+    }
+
+    if (handle.cancelled) {
+      this._postInterrupted(data);
+      return;
+    }
+
+    const request: IGenerationRequest = {
+      stream: true,
+      messages: data.messages,
+      infill: data.infill,
+      n: idTokens.length,
+      //logprobs: true,
+      //top_logprobs: 2,
+      temperature: data.temperature,
+      frequency_penalty: data.frequency_penalty,
+      presence_penalty: data.presence_penalty,
+      max_gen_len: data.max_gen_len,
+      top_p: data.top_p,
+      stop: data.stop
+    };
+    const output = Array(idTokens.length).fill('');
+    const stats = {
+      status: 'stats',
+      requestId,
+      model: modelName,
+      queueTime: 0,
+      timeToFirstToken: null,
+      completionTokens: 0,
+      promptTokens: null,
+      elapsed: 0,
+      done: false
+    } as WorkerMessage.IGenerationStats;
+    const start = performance.now();
+    stats.queueTime = start - received;
+    let tokens = 0;
+    try {
+      const asyncChunkGenerator = await engine.generate(request);
+      for await (const chunk of asyncChunkGenerator) {
+        if (handle.cancelled) {
+          // TODO: use `stopping_condition`
+          engine.interrupt();
+          throw Error('Execution interrupted');
+        }
+        // web-llm streams candidates one after another, while servers
+        // may interleave chunks of all candidates
+        for (const choice of chunk.choices) {
+          const i = choice.index;
+          if (i >= idTokens.length) {
+            continue;
+          }
+          if (choice.delta.content) {
+            // Last chunk has undefined content
+            output[i] += choice.delta.content;
+            tokens++;
+          }
+          this.options.postMessage({
+            status: 'update',
+            output: output[i],
+            requestId,
+            idToken: idTokens[i]
+          } as WorkerMessage.IUpdate);
+        }
+        // each chunk carries at most one token per candidate; newer
+        // versions of web-llm and servers also report usage in the last chunk
+        const usage = chunk.usage;
+        stats.elapsed = performance.now() - start;
+        stats.timeToFirstToken ??= stats.elapsed;
+        stats.completionTokens = usage?.completion_tokens ?? tokens;
+        stats.promptTokens = usage?.prompt_tokens ?? null;
+        this.options.postMessage(stats);
+      }
+      this.options.postMessage({ ...stats, done: true });
+    } catch (e: unknown) {
+      if ((e as Error).message === 'Execution interrupted') {
+        this._postInterrupted(data);
+        return;
+      }
+      const error = errorInfo(e, 'generation-failed');
+      this.options.postMessage({
+        status: 'exception',
+        model: modelName,
+        requestId,
+        idTokens,
+        error
+      } as WorkerMessage.IException);
+      if (
+        error.code === 'device-lost' &&
+        this._completionModels.get(modelName) === model
+      ) {
+        // web-llm unloads the model once the device is lost
+        this._completionModels.delete(modelName);
+        this.options.postMessage({
+          status: 'unloaded',
+          model: modelName
+        } as WorkerMessage.IUnloaded);
+      }
+      return;
+    }
+
+    for (let i = 0; i < output.length; i++) {
+      this.options.postMessage({
+        status: 'complete',
+        output: output[i],
+        requestId,
+        idToken: idTokens[i]
+      } as WorkerMessage.IComplete);
+    }
+  }
+
+  private _postInterrupted(data: Message.IGenerate) {
+    this.options.postMessage({
+      status: 'interrupted',
+      requestId: data.requestId,
+      idTokens: data.idTokens,
+      error: {
+        code: 'interrupted',
+        message: 'Generation was superseded by a newer request'
+      }
+    } as WorkerMessage.IInterrupted);
+  }
+
+  /**
+   * Report that the model failed to load; the model is forgotten so that
+   * loading it can be attempted again.
+   */
+  private _postLoadingError(name: string, model: CompletionModel, e: unknown) {
+    if (this._completionModels.get(name) === model) {
+      this._completionModels.delete(name);
+    }
+    this.options.postMessage({
+      status: 'exception',
+      model: name,
+      error: errorInfo(e, 'load-failed'),
+      preflight: e instanceof UnsupportedModelError ? e.report : undefined
+    } as WorkerMessage.IException);
+  }
+
+  /**
+   * Restart countdown after which the model is unloaded if not used.
+   */
+  private _touch(model: string) {
+    clearTimeout(this._idleTimers.get(model));
+    this._idleTimers.delete(model);
+    if (this._idleTimeout > 0) {
+      this._idleTimers.set(
+        model,
+        setTimeout(() => this._unloadIdle(model), this._idleTimeout)
+      );
+    }
+  }
+
+  /**
+   * Unload model which was not used for the idle timeout to free GPU memory;
+   * it is loaded again on the next request.
+   */
+  private _unloadIdle(name: string) {
+    this._idleTimers.delete(name);
+    const model = this._completionModels.get(name);
+    if (!model) {
+      return;
+    }
+    if (!model.loaded || this._scheduler.isRunning(name)) {
+      // downloading or generating takes longer than the timeout
+      this._touch(name);
+      return;
+    }
+    // posts `unloaded`, so the main thread loads the model again when needed
+    void this._disposeModel({ action: 'disposeModel', model: name });
+  }
+
+  /* Can throw in now WebGPU! */
+  private _initializeModel(data: { model: string }): CompletionModel {
+    const existing = this._completionModels.get(data.model);
+    if (existing) {
+      return existing;
+    }
+    this._touch(data.model);
+    this.options.postMessage({
+      status: 'initiate',
+      model: data.model
+    } as WorkerMessage.IInitiate);
+    const model = new CompletionModel({
+      model: data.model,
+      backend: this._servers[data.model]
+        ? new OpenAIBackend(this._servers[data.model])
+        : this._createBackend(),
+      appConfig: this._appConfig,
+      fim: this._fim[data.model],
+      onLoadingProgress: (progress: InitProgressReport) => {
+        this.options.postMessage({
+          ...progress,
+          model: data.model,
+          status: 'progress'
+        } as WorkerMessage.IProgress);
+      }
+    });
+    model.instance.then(
+      () => {
+        if (model.cancelled) {
+          return;
+        }
+        this.options.postMessage({
+          status: 'done',
+          model: data.model
+        } as WorkerMessage.IDone);
+        // the engine is created only after the model library was compiled
+        this.options.postMessage({
+          status: 'ready',
+          model: data.model
+        } as WorkerMessage.IReady);
+      },
+      e => {
+        if (model.cancelled) {
+          return;
+        }
+        this._postLoadingError(data.model, model, e);
+      }
+    );
+    this._completionModels.set(data.model, model);
+    return model;
+  }
+
+  /**
+   * Create backend for models running in the browser.
+   */
+  private _createBackend(): IInferenceBackend {
+    switch (this._backend) {
+      case 'mock':
+        return new MockBackend();
+      case 'web-llm':
+        // the adapter is only queried once a model is loaded with web-llm
+        this._adapter ??= queryAdapter().catch(e => {
+          // query the adapter again for the next model
+          this._adapter = null;
+          throw e;
+        });
+        return new WebLLMBackend({
+          webllm: this.options.webllm,
+          adapter: this._adapter,
+          vramLimit: this._vramLimit
+        });
+    }
+  }
+
+  private _configure(data: Message.IConfigure) {
+    this._appConfig = data.appConfig;
+    this._vramLimit = data.vramLimit;
+    if (data.idleTimeout !== this._idleTimeout) {
+      this._idleTimeout = data.idleTimeout;
+      for (const model of this._completionModels.keys()) {
+        this._touch(model);
+      }
+    }
+    const backendChanged = data.backend !== this._backend;
+    const previousServers = this._servers;
+    const previousFim = this._fim;
+    this._backend = data.backend;
+    this._servers = data.servers;
+    this._fim = data.fim;
+    // models loaded with the previous backend, endpoint or prompt format
+    // can no longer be used
+    const models = [...this._completionModels.entries()].filter(
+      ([name]) =>
+        JSON.stringify(previousServers[name]) !==
+          JSON.stringify(data.servers[name]) ||
+        JSON.stringify(previousFim[name]) !== JSON.stringify(data.fim[name]) ||
+        (backendChanged && !data.servers[name])
+    );
+    for (const [name, model] of models) {
+      this._completionModels.delete(name);
+      model.cancel();
+      this.options.postMessage({
+        status: 'unloaded',
+        model: name
+      } as WorkerMessage.IUnloaded);
+    }
+  }
+
+  private _initializeBuffer(data: Message.IInitializeBuffer) {
+    this._counter = new SharedBufferReceiver(data.buffer);
+  }
+
+  private _initializeChannel(data: Message.IInitializeChannel) {
+    this._counter = new MessagePortReceiver(data.port);
+  }
+
+  private async _tokenize(data: Message.ITokenize) {
+    const model = this._completionModels.get(data.model);
+    if (model) {
+      this._touch(data.model);
+    }
+    try {
+      if (!model) {
+        throw Error(`Model ${data.model} was not initialized`);
+      }
+      const counts: number[] = [];
+      const offsets: number[][] = [];
+      for (const text of data.texts) {
+        const ids = await model.encode(text);
+        counts.push(ids.length);
+        if (data.offsets) {
+          offsets.push(await model.tokenOffsets(text, ids));
+        }
+      }
+      this.options.postMessage({
+        status: 'tokenized',
+        requestId: data.requestId,
+        counts,
+        offsets: data.offsets ? offsets : undefined,
+        contextWindowSize: await model.contextWindowSize()
+      } as WorkerMessage.ITokenized);
+    } catch (e) {
+      this.options.postMessage({
+        status: 'tokenized',
+        requestId: data.requestId,
+        counts: [],
+        contextWindowSize: null,
+        error: errorInfo(e, 'unknown')
+      } as WorkerMessage.ITokenized);
+    }
+  }
+
+  private async _disposeModel(data: Message.IDisposeModel) {
+    const model = this._completionModels.get(data.model);
+    if (!model) {
+      return;
+    }
+    this._completionModels.delete(data.model);
+    clearTimeout(this._idleTimers.get(data.model));
+    this._idleTimers.delete(data.model);
+    try {
+      await model.dispose();
+    } catch (e) {
+      console.warn(`Could not dispose ${data.model}`, e);
+    }
+    this.options.postMessage({
+      status: 'unloaded',
+      model: data.model
+    } as WorkerMessage.IUnloaded);
+  }
+
+  private _cancelLoading(data: Message.ICancelLoading) {
+    const model = this._completionModels.get(data.model);
+    if (!model) {
+      return;
+    }
+    this._completionModels.delete(data.model);
+    model.cancel();
+    this.options.postMessage({
+      status: 'unloaded',
+      model: data.model
+    } as WorkerMessage.IUnloaded);
+  }
+
+  private async _queryCache(data: Message.IQueryCache) {
+    for (const model of data.models) {
+      let cached = false;
+      let size = 0;
+      try {
+        // models served over HTTP are not stored in the browser
+        if (!this._servers[model]) {
+          cached = await this.options.webllm.hasModelInCache(
+            model,
+            this._appConfig
+          );
+          size = await this._cachedSize(model);
+        }
+      } catch (e) {
+        console.warn(`Could not query cache for ${model}`, e);
+      }
+      this.options.postMessage({
+        status: 'cache-info',
+        model,
+        cached,
+        size
+      } as WorkerMessage.ICacheInfo);
+    }
+  }
+
+  private async _deleteCache(data: Message.IDeleteCache) {
+    try {
+      await this.options.webllm.deleteModelAllInfoInCache(
+        data.model,
+        this._appConfig
+      );
+    } catch (e) {
+      this.options.postMessage({
+        status: 'exception',
+        error: errorInfo(e, 'unknown')
+      } as WorkerMessage.IException);
+    }
+    return this._queryCache({ action: 'queryCache', models: [data.model] });
+  }
+
+  /**
+   * Sum sizes of weights, configuration and library of the model found in
+   * the caches used by web-llm.
+   */
+  private async _cachedSize(model: string): Promise<number> {
+    const appConfig: AppConfig =
+      this._appConfig ?? this.options.webllm.prebuiltAppConfig;
+    const record = appConfig.model_list.find(
+      (record: ModelRecord) => record.model_id === model
+    );
+    if (!record) {
+      return 0;
+    }
+    let size = 0;
+    for (const name of ['webllm/model', 'webllm/config', 'webllm/wasm']) {
+      if (!(await caches.has(name))) {
+        continue;
+      }
+      const cache = await caches.open(name);
+      for (const request of await cache.keys()) {
+        if (
+          !request.url.startsWith(record.model_url) &&
+          request.url !== record.model_lib_url
+        ) {
+          continue;
+        }
+        const response = await cache.match(request);
+        const length = response?.headers.get('content-length');
+        size += length ? Number(length) : ((await response?.blob())?.size ?? 0);
+      }
+    }
+    return size;
+  }
+
+  private _adapter: Promise<IAdapterReport> | null = null;
+  private _appConfig: AppConfig | undefined = undefined;
+  private _backend: BackendName = 'web-llm';
+  private _servers: Record<string, IServerEndpoint> = {};
+  private _fim: Record<string, IFimTokens> = {};
+  private _vramLimit = 0;
+  /**
+   * Time after which unused models are unloaded in milliseconds, or zero to keep them.
+   */
+  private _idleTimeout = 0;
+  private _idleTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private _counter: ICounterReceiver | null = null;
+  private _completionModels: Map<string, CompletionModel> = new Map();
+  private _scheduler = new RequestScheduler();
+}
+
+export namespace InferenceWorker {
+  export interface IOptions {
+    /**
+     * Module of web-llm, loaded by the worker entry point.
+     */
+    webllm: typeof webllm;
+    /**
+     * Post message to the main thread.
+     */
+    postMessage: (message: WorkerMessage.Message) => void;
+  }
+}
+
+/**
+ * Cancellation handle of a generation request, cancelled once a newer
+ * request is made in the same lane.
+ */
+class CancellationHandle {
+  constructor(
+    private _receiver: ICounterReceiver,
+    readonly lane: number,
+    readonly counter: number
+  ) {
+    _receiver.observe(lane, counter);
+  }
+
+  get cancelled(): boolean {
+    return this._receiver.current(this.lane) !== this.counter;
+  }
+}
+
+/**
+ * Runs generation requests one at a time for each engine, explicitly invoked
+ * requests first; requests for different engines run concurrently.
+ */
+class RequestScheduler {
+  schedule(engine: string, job: RequestScheduler.IJob) {
+    const queue = this._queues.get(engine) ?? [];
+    const rank = PRIORITY_RANK[job.priority];
+    const index = queue.findIndex(
+      queued => PRIORITY_RANK[queued.priority] < rank
+    );
+    queue.splice(index === -1 ? queue.length : index, 0, job);
+    this._queues.set(engine, queue);
+    if (!this._running.has(engine)) {
+      void this._run(engine, queue);
+    }
+  }
+
+  /**
+   * Whether requests for the engine are being processed.
+   */
+  isRunning(engine: string): boolean {
+    return this._running.has(engine);
+  }
+
+  private async _run(engine: string, queue: RequestScheduler.IJob[]) {
+    this._running.add(engine);
+    let job: RequestScheduler.IJob | undefined;
+    while ((job = queue.shift())) {
+      if (job.handle.cancelled) {
+        job.skip();
+        continue;
+      }
+      try {
+        await job.run();
+      } catch (e) {
+        console.error('Generation failed', e);
+      }
+    }
+    this._running.delete(engine);
+  }
+
+  private _queues: Map<string, RequestScheduler.IJob[]> = new Map();
+  private _running: Set<string> = new Set();
+}
+
+namespace RequestScheduler {
+  export interface IJob {
+    priority: RequestPriority;
+    handle: CancellationHandle;
+    /**
+     * Run the generation.
+     */
+    run: () => Promise<void>;
+    /**
+     * Notify that the request was cancelled before it could run.
+     */
+    skip: () => void;
+  }
+}
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  invoke: 1,
+  automatic: 0
+};
+
+/**
+ * Backend running models with web-llm on WebGPU.
+ */
+class WebLLMBackend implements IInferenceBackend {
+  constructor(protected options: WebLLMBackend.IOptions) {}
+
+  async load(options: IInferenceBackend.ILoadOptions): Promise<void> {
+    // check requirements before downloading gigabytes of weights
+    const adapter = await this.options.adapter;
+    const appConfig: AppConfig =
+      options.appConfig ?? this.options.webllm.prebuiltAppConfig;
+    const record = appConfig.model_list.find(
+      (record: ModelRecord) => record.model_id === options.model
+    );
+    if (!record) {
+      throw new ModelError(
+        'bad-config',
+        `${options.model} is not a known model; check \`customModels\` in settings`
+      );
+    }
+    const problems = checkRequirements(record, adapter, this.options.vramLimit);
+    if (problems.length > 0) {
+      throw new UnsupportedModelError(options.model, { problems, adapter });
+    }
+    if (this.options.vramLimit <= 0 && record.vram_required_MB) {
+      console.warn(
+        `${options.model} needs ${Math.round(
+          record.vram_required_MB
+        )} MB of video memory, which is not checked because the available video memory is unknown; set \`vramLimit\` to check it`
+      );
+    }
+    this._fim = options.fim ?? null;
+    const chatOpts = this._fim
+      ? await Private.fimChatOptions(record, this._fim)
+      : undefined;
+    try {
+      this._engine = await this.options.webllm.CreateEngine(options.model, {
+        appConfig: options.appConfig,
+        chatOpts,
+        initProgressCallback: options.onProgress
+      });
+    } catch (e) {
+      // the device is lost when weights exceed the available memory
+      const { code, message } = errorInfo(e, 'load-failed');
+      if (code !== 'out-of-memory' && code !== 'device-lost') {
+        throw e;
+      }
+      throw new UnsupportedModelError(
+        options.model,
+        {
+          problems: [
+            `the GPU ran out of memory while loading the model (${message})`
+          ],
+          adapter
+        },
+        'out-of-memory'
+      );
+    }
+  }
+
+  async generate(
+    request: IGenerationRequest
+  ): Promise<AsyncIterable<ChatCompletionChunk>> {
+    const engine = this._loaded();
+    const { infill, ...chatRequest } = request;
+    if (infill && !this._fim) {
+      throw new ModelError(
+        'bad-config',
+        'Model was not loaded for fill-in-the-middle'
+      );
+    }
+    if (!infill && this._fim) {
+      throw new ModelError(
+        'unsupported',
+        'Model loaded for fill-in-the-middle cannot reply to chat messages; disable `fillInTheMiddle` to use it for chat'
+      );
+    }
+    if (infill) {
+      // the conversation template set on load concatenates these verbatim
+      chatRequest.messages = [
+        { role: 'system', content: this._fim!.prefix + infill.prefix },
+        { role: 'user', content: this._fim!.suffix + infill.suffix }
+      ];
+    }
+    const n = chatRequest.n ?? 1;
+    if (n <= 1) {
+      return engine.chat.completions.create(chatRequest);
+    }
+    // web-llm cannot stream multiple candidates at once
+    return Private.streamInTurn(engine, chatRequest, n);
+  }
+
+  interrupt() {
+    this._engine?.interruptGenerate();
+  }
+
+  async unload(): Promise<void> {
+    if (!this._engine) {
+      return;
+    }
+    this._engine.resetChat();
+    await this._engine.unload();
+    this._engine = null;
+  }
+
+  async tokenize(text: string): Promise<number[]> {
+    return Array.from(
+      Private.chatPipeline(this._loaded()).tokenizer.encode(text)
+    );
+  }
+
+  async detokenize(ids: number[]): Promise<string> {
+    return Private.chatPipeline(this._loaded()).tokenizer.decode(
+      Int32Array.from(ids)
+    );
+  }
+
+  async contextWindowSize(): Promise<number | null> {
+    const pipeline = Private.chatPipeline(this._loaded());
+    const size =
+      pipeline.slidingWindowSize !== -1
+        ? pipeline.slidingWindowSize
+        : pipeline.maxWindowLength;
+    return size > 0 ? size : null;
+  }
+
+  private _loaded(): EngineInterface {
+    if (!this._engine) {
+      throw Error('Model is not loaded');
+    }
+    return this._engine;
+  }
+
+  private _engine: EngineInterface | null = null;
+  private _fim: IFimTokens | null = null;
+}
+
+namespace WebLLMBackend {
+  export interface IOptions {
+    webllm: typeof webllm;
+    /**
+     * Capabilities of the WebGPU adapter, checked before loading.
+     */
+    adapter: Promise<IAdapterReport>;
+    /**
+     * Video memory available to the browser in MB, or zero if unknown.
+     */
+    vramLimit: number;
+  }
+}
+
+class CompletionModel {
+  constructor(options: CompletionModel.IOptions) {
+    const backend = options.backend;
+    this._instance = backend
+      .load({
+        model: options.model,
+        appConfig: options.appConfig,
+        fim: options.fim,
+        onProgress: (progress: InitProgressReport) => {
+          if (this._cancelled) {
+            // backends do not support aborting; throwing stops the download
+            throw Error('Loading cancelled');
+          }
+          options.onLoadingProgress(progress);
+        }
+      })
+      .then(() => {
+        this._loaded = true;
+        return backend;
+      });
+  }
+
+  get instance(): Promise<IInferenceBackend> {
+    return this._instance;
+  }
+
+  /**
+   * Whether the model finished loading.
+   */
+  get loaded(): boolean {
+    return this._loaded;
+  }
+
+  /**
+   * Whether loading of the model was cancelled.
+   */
+  get cancelled(): boolean {
+    return this._cancelled;
+  }
+
+  /**
+   * Cancel loading of the model; the model is unloaded if loading has
+   * already progressed past the point where it can be stopped.
+   */
+  cancel() {
+    this._cancelled = true;
+    this._instance.then(
+      backend => backend.unload(),
+      () => {
+        // loading failed or was stopped
+      }
+    );
+  }
+
+  async dispose() {
+    const backend = await this._instance;
+    await backend.unload();
+  }
+
+  /**
+   * Encode text into token identifiers.
+   */
+  async encode(text: string): Promise<number[]> {
+    const backend = await this._instance;
+    return backend.tokenize(text);
+  }
+
+  /**
+   * Get character offsets in `text` at which its consecutive tokens start.
+   *
+   * Each token is decoded once and located in the text: decoders may drop
+   * the leading space of a token decoded alone, so skipped whitespace is
+   * attributed to the token, while tokens holding only part of a multi-byte
+   * character (decoded as replacement characters) cannot be located, so
+   * the character is included in the next token which can.
+   */
+  async tokenOffsets(text: string, ids: number[]): Promise<number[]> {
+    const backend = await this._instance;
+    const offsets: number[] = [];
+    let position = 0;
+    // number of preceding tokens which could not be located
+    let unlocated = 0;
+    for (const id of ids) {
+      offsets.push(position);
+      const piece = await backend.detokenize([id]);
+      if (piece === '' || piece.includes('\uFFFD')) {
+        unlocated++;
+        continue;
+      }
+      // skip whitespace and characters of tokens which were not located
+      let start = position;
+      let skippable = unlocated;
+      while (start < text.length && !text.startsWith(piece, start)) {
+        if (text[start].trim() !== '' && skippable-- === 0) {
+          break;
+        }
+        start++;
+      }
+      if (text.startsWith(piece, start)) {
+        position = start + piece.length;
+        unlocated = 0;
+      }
+    }
+    return offsets;
+  }
+
+  /**
+   * Size of the context window of the model in tokens, or `null` if unbounded.
+   */
+  async contextWindowSize(): Promise<number | null> {
+    const backend = await this._instance;
+    return backend.contextWindowSize();
+  }
+
+  private _cancelled = false;
+  private _instance: Promise<IInferenceBackend>;
+  private _loaded = false;
+}
+
+namespace CompletionModel {
+  export interface IOptions {
+    model: string;
+    backend: IInferenceBackend;
+    appConfig?: AppConfig;
+    /**
+     * Fill-in-the-middle tokens if the model should be loaded for infilling.
+     */
+    fim?: IFimTokens;
+    onLoadingProgress: (progress: any) => void;
+  }
+}
+
+namespace Private {
+  /**
+   * Stream `n` candidates by generating them one after another, setting
+   * the index of each choice to the index of its candidate.
+   */
+  export async function* streamInTurn(
+    engine: EngineInterface,
+    request: ChatCompletionRequestStreaming,
+    n: number
+  ): AsyncGenerator<IChatCompletionChunk> {
+    for (let index = 0; index < n; index++) {
+      const chunks = await engine.chat.completions.create({ ...request, n: 1 });
+      for await (const chunk of chunks) {
+        yield {
+          ...chunk,
+          choices: chunk.choices.map(choice => ({ ...choice, index })),
+          // usage of a single candidate would hide tokens of the others
+          usage: undefined
+        };
+      }
+    }
+  }
+
+  /**
+   * Get chat options loading the model with a conversation template which
+   * formats a system and a user message as a fill-in-the-middle prompt:
+   * `<prefix token>{system}<suffix token>{user}<middle token>`.
+   *
+   * Role names, separators and message templates of the model are emptied,
+   * while its stop strings and stop and prefix token identifiers are kept;
+   * the template is read from the model config as web-llm ignores
+   * `conv_config` for models which embed their template in the config.
+   */
+  export async function fimChatOptions(
+    record: ModelRecord,
+    tokens: IFimTokens
+  ): Promise<ChatOptions> {
+    const raw: ChatOptions['conv_config'] = {
+      system_template: '{system_message}',
+      system_message: '',
+      roles: { user: '', assistant: '' },
+      role_templates: {
+        user: '{user_message}',
+        assistant: '{assistant_message}'
+      },
+      // only the first separator is used with two messages, while the last
+      // one stops generation if the model defines no stop strings
+      seps: ['', tokens.prefix],
+      // the reply header is the (empty) assistant role followed by this
+      role_empty_sep: tokens.middle,
+      // no role prefix for the user message directly following the system one
+      add_role_after_system_message: false
+    };
+    const base = new URL(record.model_url, globalThis.location.origin);
+    const response = await fetch(new URL('mlc-chat-config.json', base));
+    if (!response.ok) {
+      throw new ModelError(
+        'load-failed',
+        `Could not fetch config of ${record.model_id}: ${response.status} ${response.statusText}`
+      );
+    }
+    const config: Partial<ChatOptions> = await response.json();
+    if (typeof config.conv_template === 'object') {
+      return { conv_template: { ...config.conv_template, ...raw } };
+    }
+    return { conv_config: raw };
+  }
+
+  /**
+   * Parts of the web-llm chat pipeline used for tokenization.
+   */
+  export interface IChatPipeline {
+    tokenizer: {
+      encode(text: string): Int32Array;
+      decode(ids: Int32Array): string;
+    };
+    maxWindowLength: number;
+    slidingWindowSize: number;
+  }
+
+  /**
+   * Get the chat pipeline holding the tokenizer of the loaded model.
+   *
+   * The tokenizer is not part of the public engine interface in web-llm,
+   * so it is read from the engine internals after checking their shape;
+   * if these changed, tokenization fails and the main thread falls back
+   * to counting characters (logging it once per model).
+   */
+  export function chatPipeline(engine: EngineInterface): IChatPipeline {
+    const internals = engine as unknown as {
+      getPipeline?: () => Partial<IChatPipeline> | undefined;
+    };
+    const pipeline = internals.getPipeline?.();
+    if (
+      typeof pipeline?.tokenizer?.encode !== 'function' ||
+      typeof pipeline.tokenizer.decode !== 'function'
+    ) {
+      throw new ModelError(
+        'unsupported',
+        'Tokenizer is not accessible in this version of web-llm'
+      );
+    }
+    return pipeline as IChatPipeline;
+  }
+}
@@ -0,0 +1,446 @@
+import { bugIcon } from '@jupyterlab/ui-components';
+import type { Message } from '@lumino/messaging';
+import { ISignal, Signal } from '@lumino/signaling';
+import { Widget } from '@lumino/widgets';
+import type { ChatCompletionMessageParam } from '@mlc-ai/web-llm';
+import type { IGenerationProfile } from './profiles';
+import type { RequestPriority } from './types';
+
+/**
+ * Outcome of a generation request.
+ */
+export type GenerationOutcome =
+  'running' | 'completed' | 'cancelled' | 'failed';
+
+/**
+ * Details of a completion request recorded for debugging.
+ */
+export interface IGenerationRecord {
+  requestId: string;
+  model: string;
+  contentType: 'code' | 'text';
+  priority: RequestPriority;
+  /**
+   * Time at which the request was made, as ISO string.
+   */
+  started: string;
+  /**
+   * Messages sent to the model; empty for fill-in-the-middle prompts.
+   */
+  messages: ChatCompletionMessageParam[];
+  /**
+   * Text of fill-in-the-middle prompt, or `null` for chat prompts.
+   */
+  prompt: string | null;
+  /**
+   * Generation config after resolving profiles and explicit request options.
+   */
+  config: IGenerationProfile & { n: number };
+  /**
+   * Text of each candidate as streamed by the model.
+   */
+  raw: string[];
+  /**
+   * Text of each candidate after post-processing, as shown to the user;
+   * empty for candidates which were hidden (e.g. duplicates).
+   */
+  candidates: string[];
+  timings: {
+    /**
+     * Time waiting for previous requests or for the model to load, in milliseconds.
+     */
+    queue: number | null;
+    timeToFirstToken: number | null;
+    /**
+     * Time from the start of generation to the last token, in milliseconds.
+     */
+    total: number | null;
+  };
+  outcome: GenerationOutcome;
+  /**
+   * Index of the candidate which was accepted, inferred from the text
+   * typed after the suggestion was shown, or `null`.
+   */
+  accepted: number | null;
+  error: string | null;
+}
+
+/**
+ * Number of most recent completed requests checked for acceptance.
+ */
+const ACCEPTANCE_WINDOW = 5;
+
+/**
+ * Keeps details of the most recent completion requests.
+ */
+export class GenerationLog {
+  constructor(protected options: GenerationLog.IOptions) {}
+
+  /**
+   * Signal emitted when a record is added or updated.
+   */
+  get changed(): ISignal<GenerationLog, void> {
+    return this._changed;
+  }
+
+  /**
+   * Maximum number of records kept.
+   */
+  get size(): number {
+    return this.options.size;
+  }
+  set size(size: number) {
+    this.options.size = size;
+    this._trim();
+  }
+
+  /**
+   * Recorded requests, latest first.
+   */
+  get records(): IGenerationRecord[] {
+    return this._records;
+  }
+
+  /**
+   * Record a new request.
+   *
+   * @param idTokens - tokens identifying the candidates in worker messages
+   * @param prefix - text before the cursor, used to infer acceptance
+   */
+  add(
+    record: Omit<
+      IGenerationRecord,
+      'raw' | 'candidates' | 'timings' | 'outcome' | 'accepted' | 'error'
+    >,
+    idTokens: string[],
+    prefix: string
+  ) {
+    if (this.options.size <= 0) {
+      return;
+    }
+    this._records.unshift({
+      ...record,
+      raw: idTokens.map(() => ''),
+      candidates: idTokens.map(() => ''),
+      timings: { queue: null, timeToFirstToken: null, total: null },
+      outcome: 'running',
+      accepted: null,
+      error: null
+    });
+    this._requests.set(record.requestId, { idTokens, prefix });
+    this._trim();
+    this._changed.emit();
+  }
+
+  /**
+   * Record text of a candidate; `processed` is given once it is complete.
+   */
+  updateCandidate(
+    requestId: string,
+    idToken: string,
+    raw: string,
+    processed?: string
+  ) {
+    const record = this._find(requestId);
+    const index = this._requests.get(requestId)?.idTokens.indexOf(idToken);
+    if (!record || index === undefined || index === -1) {
+      return;
+    }
+    record.raw[index] = raw;
+    if (processed !== undefined) {
+      record.candidates[index] = processed;
+    }
+    this._changed.emit();
+  }
+
+  /**
+   * Record timings reported by the worker.
+   */
+  updateTimings(
+    requestId: string,
+    timings: Partial<IGenerationRecord['timings']>
+  ) {
+    const record = this._find(requestId);
+    if (!record) {
+      return;
+    }
+    record.timings = { ...record.timings, ...timings };
+    this._changed.emit();
+  }
+
+  /**
+   * Record that the request finished.
+   */
+  finish(requestId: string, outcome: GenerationOutcome, error?: string) {
+    const record = this._find(requestId);
+    if (!record || record.outcome !== 'running') {
+      return;
+    }
+    record.outcome = outcome;
+    record.error = error ?? null;
+    this._changed.emit();
+  }
+
+  /**
+   * Mark candidates of recent requests as accepted if the text before the
+   * cursor now continues with them.
+   */
+  observe(prefix: string) {
+    const recent = this._records
+      .filter(record => record.outcome === 'completed')
+      .slice(0, ACCEPTANCE_WINDOW);
+    for (const record of recent) {
+      if (record.accepted !== null) {
+        continue;
+      }
+      const request = this._requests.get(record.requestId);
+      if (!request || !prefix.startsWith(request.prefix)) {
+        continue;
+      }
+      const typed = prefix.slice(request.prefix.length);
+      const index = record.candidates.findIndex(
+        candidate => candidate.trim() !== '' && typed.startsWith(candidate)
+      );
+      if (index !== -1) {
+        record.accepted = index;
+        this._changed.emit();
+      }
+    }
+  }
+
+  clear() {
+    this._records = [];
+    this._requests.clear();
+    this._changed.emit();
+  }
+
+  /**
+   * Serialize records for export.
+   */
+  toJSON(): IGenerationRecord[] {
+    return this._records;
+  }
+
+  private _find(requestId: string): IGenerationRecord | undefined {
+    return this._requests.has(requestId)
+      ? this._records.find(record => record.requestId === requestId)
+      : undefined;
+  }
+
+  private _trim() {
+    for (const record of this._records.splice(Math.max(this.options.size, 0))) {
+      this._requests.delete(record.requestId);
+    }
+  }
+
+  private _changed = new Signal<GenerationLog, void>(this);
+  private _records: IGenerationRecord[] = [];
+  private _requests: Map<string, { idTokens: string[]; prefix: string }> =
+    new Map();
+}
+
+export namespace GenerationLog {
+  export interface IOptions {
+    /**
+     * Maximum number of records kept; nothing is recorded if zero.
+     */
+    size: number;
+  }
+}
+
+/**
+ * Sidebar panel showing recorded completion requests: messages sent to the
+ * model, generation config, raw and post-processed candidates, and timings;
+ * records can be exported as JSON for review or bug reports.
+ */
+export class InspectorPanel extends Widget {
+  constructor(protected options: InspectorPanel.IOptions) {
+    super();
+    this.id = 'jp-web-llm-inspector';
+    this.addClass('jp-web-llm-inspector');
+    this.title.icon = bugIcon;
+    this.title.caption = 'Inline Completion Inspector';
+
+    const header = document.createElement('div');
+    header.className = 'jp-web-llm-inspector-header';
+    const title = document.createElement('h3');
+    title.textContent = 'Requests';
+    header.append(
+      title,
+      this._button('Export JSON', () => this.exportJSON()),
+      this._button('Clear', () => options.log.clear())
+    );
+    this._list.className = 'jp-web-llm-inspector-list';
+    this.node.append(header, this._list);
+    options.log.changed.connect(this._onChanged, this);
+  }
+
+  dispose() {
+    if (this.isDisposed) {
+      return;
+    }
+    this.options.log.changed.disconnect(this._onChanged, this);
+    super.dispose();
+  }
+
+  /**
+   * Download recorded requests as a JSON file.
+   */
+  exportJSON() {
+    const blob = new Blob([JSON.stringify(this.options.log, null, 2)], {
+      type: 'application/json'
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `web-llm-requests-${new Date()
+      .toISOString()
+      .replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  protected onAfterShow(msg: Message) {
+    super.onAfterShow(msg);
+    this._render();
+  }
+
+  private _onChanged() {
+    if (!this.isVisible || this._renderRequested) {
+      return;
+    }
+    // chunks are streamed faster than the panel needs to be updated
+    this._renderRequested = true;
+    requestAnimationFrame(() => {
+      this._renderRequested = false;
+      this._render();
+    });
+  }
+
+  private _render() {
+    const records = this.options.log.records;
+    if (records.length === 0) {
+      const empty = document.createElement('p');
+      empty.className = 'jp-web-llm-inspector-empty';
+      empty.textContent =
+        this.options.log.size > 0
+          ? 'No requests were made yet.'
+          : 'Recording is disabled; set `inspectorHistory` in the Inline Completer settings.';
+      this._list.replaceChildren(empty);
+      return;
+    }
+    this._list.replaceChildren(
+      ...records.map(record => this._renderRecord(record))
+    );
+  }
+
+  private _renderRecord(record: IGenerationRecord): HTMLElement {
+    const details = document.createElement('details');
+    details.className = 'jp-web-llm-inspector-record';
+    details.dataset.outcome = record.outcome;
+    details.open = this._expanded.has(record.requestId);
+    details.addEventListener('toggle', () => {
+      if (details.open) {
+        this._expanded.add(record.requestId);
+      } else {
+        this._expanded.delete(record.requestId);
+      }
+    });
+
+    const summary = document.createElement('summary');
+    const { queue, timeToFirstToken, total } = record.timings;
+    summary.textContent = [
+      `${record.requestId} ${record.model}`,
+      record.outcome,
+      record.accepted !== null ? `accepted #${record.accepted + 1}` : null,
+      timeToFirstToken !== null
+        ? `first token ${Math.round(timeToFirstToken)} ms`
+        : null
+    ]
+      .filter(part => part !== null)
+      .join(' · ');
+    details.append(summary);
+
+    details.append(
+      this._section(
+        'Request',
+        `${record.started}, ${record.contentType}, ${record.priority}`
+      ),
+      this._section(
+        'Timings',
+        [
+          `queue: ${Private.formatTime(queue)}`,
+          `first token: ${Private.formatTime(timeToFirstToken)}`,
+          `total: ${Private.formatTime(total)}`
+        ].join(', ')
+      ),
+      this._section('Config', JSON.stringify(record.config, null, 2), true)
+    );
+    for (const message of record.messages) {
+      details.append(
+        this._section(
+          `Message (${message.role})`,
+          typeof message.content === 'string'
+            ? message.content
+            : JSON.stringify(message.content, null, 2),
+          true
+        )
+      );
+    }
+    if (record.prompt !== null) {
+      details.append(
+        this._section('Prompt (fill-in-the-middle)', record.prompt, true)
+      );
+    }
+    record.raw.forEach((raw, i) => {
+      details.append(
+        this._section(`Candidate ${i + 1} (raw)`, raw, true),
+        this._section(
+          `Candidate ${i + 1} (shown)`,
+          record.candidates[i] || '(hidden or not complete)',
+          true
+        )
+      );
+    });
+    if (record.error) {
+      details.append(this._section('Error', record.error, true));
+    }
+    return details;
+  }
+
+  private _section(label: string, text: string, code = false): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'jp-web-llm-inspector-section';
+    const heading = document.createElement('div');
+    heading.className = 'jp-web-llm-inspector-label';
+    heading.textContent = label;
+    const content = document.createElement(code ? 'pre' : 'div');
+    content.textContent = text;
+    section.append(heading, content);
+    return section;
+  }
+
+  private _button(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'jp-mod-styled jp-mod-reject';
+    button.textContent = label;
+    button.onclick = onClick;
+    return button;
+  }
+
+  private _expanded: Set<string> = new Set();
+  private _list = document.createElement('div');
+  private _renderRequested = false;
+}
+
+export namespace InspectorPanel {
+  export interface IOptions {
+    log: GenerationLog;
+  }
+}
+
+namespace Private {
+  export function formatTime(milliseconds: number | null): string {
+    return milliseconds === null ? '–' : `${Math.round(milliseconds)} ms`;
+  }
+}
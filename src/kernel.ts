@@ -0,0 +1,342 @@
+import type { ISessionContext } from '@jupyterlab/apputils';
+import { Kernel, KernelMessage } from '@jupyterlab/services';
+import { ILanguageSyntax, stripAnsi } from './notebook';
+import type { ITokenMeasure } from './tokenizer';
+
+/**
+ * Python code summarising names in the user namespace, one line per name;
+ * it is executed in a fresh namespace so that it leaves no trace in the
+ * kernel, and its result is represented as JSON.
+ */
+const PYTHON_SUMMARY = `
+import inspect, json, types
+
+class _Json:
+    def __init__(self, value):
+        self.text = json.dumps(value)
+    def __repr__(self):
+        return self.text
+
+def _summarize(namespace, limit):
+    lines = []
+    for name, value in list(namespace.items()):
+        if name.startswith('_') or name in ('In', 'Out', 'get_ipython', 'exit', 'quit'):
+            continue
+        kind = type(value).__name__
+        try:
+            if isinstance(value, types.ModuleType):
+                module = value.__name__
+                lines.append(f'import {module}' if module == name else f'import {module} as {name}')
+            elif inspect.isclass(value):
+                lines.append(f'class {name}')
+            elif callable(value):
+                lines.append(f'def {name}{inspect.signature(value)}')
+            elif hasattr(value, 'columns') and hasattr(value, 'dtypes'):
+                columns = ', '.join(f'{column}: {dtype}' for column, dtype in list(value.dtypes.astype(str).items())[:20])
+                lines.append(f'{name}: {kind} {value.shape} columns [{columns}]')
+            elif hasattr(value, 'shape') and hasattr(value, 'dtype'):
+                lines.append(f'{name}: {kind} shape={value.shape} dtype={value.dtype}')
+            elif isinstance(value, (list, tuple, dict, set)):
+                lines.append(f'{name}: {kind} of length {len(value)}')
+            else:
+                lines.append(f'{name}: {kind}')
+        except Exception:
+            lines.append(f'{name}: {kind}')
+    return _Json(lines[-limit:])
+`;
+
+/**
+ * Maximum number of names summarised, keeping the most recently defined.
+ */
+const MAX_NAMES = 50;
+
+/**
+ * Maximum number of functions called before the cursor to look up.
+ */
+const MAX_SIGNATURES = 3;
+
+/**
+ * Time after which kernel requests are abandoned, in milliseconds.
+ */
+const KERNEL_TIMEOUT = 500;
+
+/**
+ * Summarises the state of the kernel (names in scope, their types, columns
+ * of data frames, and signatures of called functions) for the prompt.
+ *
+ * Results are cached until the kernel executes the next cell; kernels which
+ * are busy are not queried, so that completions never wait on execution.
+ */
+export class KernelContext {
+  /**
+   * Summarise kernel state relevant to the text before the cursor as
+   * comments fitting in `budget` tokens, or return empty string.
+   */
+  async summarize(
+    session: ISessionContext,
+    options: KernelContext.IOptions
+  ): Promise<string> {
+    const kernel = session.session?.kernel;
+    if (!kernel || options.budget <= 0) {
+      return '';
+    }
+    this._track(session);
+    const executionCount = this._executionCounts.get(session) ?? 0;
+    let state = this._states.get(session);
+    if (!state || state.executionCount !== executionCount) {
+      state = { executionCount, names: null, signatures: new Map() };
+      this._states.set(session, state);
+    }
+    if (kernel.status === 'idle') {
+      await this._update(kernel, state, Private.calledNames(options.prefix));
+    }
+
+    const signatures = [...state.signatures.values()].filter(
+      (signature): signature is string => !!signature
+    );
+    const names = state.names ?? [];
+    if (signatures.length === 0 && names.length === 0) {
+      return '';
+    }
+    const comment = (line: string) => `${options.syntax.comment} ${line}\n`;
+    const header = comment('Kernel state:');
+    // signatures are most relevant to the cursor, followed by recent names
+    const candidates = [...signatures, ...[...names].reverse()].map(comment);
+    const [headerTokens, ...counts] = await options.measure.count([
+      header,
+      ...candidates
+    ]);
+    let budget = options.budget - headerTokens;
+    const included = new Set<string>();
+    for (let i = 0; i < candidates.length; i++) {
+      if (counts[i] > budget) {
+        break;
+      }
+      budget -= counts[i];
+      included.add(candidates[i]);
+    }
+    if (included.size === 0) {
+      return '';
+    }
+    return (
+      header +
+      [...signatures, ...names]
+        .map(comment)
+        .filter(line => included.has(line))
+        .join('')
+    );
+  }
+
+  /**
+   * Query the kernel for information missing in the state.
+   */
+  private async _update(
+    kernel: Kernel.IKernelConnection,
+    state: Private.IKernelState,
+    called: string[]
+  ) {
+    const language = (await Private.withTimeout(kernel.info))?.language_info
+      .name;
+    const requests: Promise<void>[] = [];
+    if (state.names === null && language === 'python') {
+      requests.push(
+        Private.queryNames(kernel).then(names => {
+          state.names = names;
+        })
+      );
+    }
+    for (const name of called) {
+      if (!state.signatures.has(name)) {
+        requests.push(
+          Private.querySignature(kernel, name).then(signature => {
+            state.signatures.set(name, signature);
+          })
+        );
+      }
+    }
+    await Promise.all(requests);
+  }
+
+  /**
+   * Follow execution counts and restarts of the kernel.
+   */
+  private _track(session: ISessionContext) {
+    if (this._tracked.has(session)) {
+      return;
+    }
+    this._tracked.add(session);
+    session.iopubMessage.connect((_, message) => {
+      if (KernelMessage.isExecuteInputMsg(message)) {
+        this._executionCounts.set(
+          session,
+          message.content.execution_count ?? 0
+        );
+      }
+    });
+    session.statusChanged.connect((_, status) => {
+      if (status === 'restarting' || status === 'autorestarting') {
+        this._states.delete(session);
+        this._executionCounts.delete(session);
+      }
+    });
+  }
+
+  private _executionCounts: WeakMap<ISessionContext, number> = new WeakMap();
+  private _states: WeakMap<ISessionContext, Private.IKernelState> =
+    new WeakMap();
+  private _tracked: WeakSet<ISessionContext> = new WeakSet();
+}
+
+export namespace KernelContext {
+  export interface IOptions {
+    /**
+     * Text before the cursor, used to find called functions.
+     */
+    prefix: string;
+    /**
+     * Number of tokens available for the summary.
+     */
+    budget: number;
+    measure: ITokenMeasure;
+    /**
+     * Syntax of the kernel language, used to format the summary as comments.
+     */
+    syntax: ILanguageSyntax;
+  }
+}
+
+namespace Private {
+  /**
+   * State of the kernel after a given execution.
+   */
+  export interface IKernelState {
+    executionCount: number;
+    /**
+     * Summaries of names in scope, or `null` if not queried yet.
+     */
+    names: string[] | null;
+    /**
+     * Signatures of functions by name; `null` if not found.
+     */
+    signatures: Map<string, string | null>;
+  }
+
+  /**
+   * Resolve with the result, or `null` if the promise does not settle in time or rejects.
+   */
+  export async function withTimeout<T>(promise: Promise<T>): Promise<T | null> {
+    let timeout = 0;
+    try {
+      return await Promise.race([
+        promise,
+        new Promise<null>(resolve => {
+          timeout = window.setTimeout(() => resolve(null), KERNEL_TIMEOUT);
+        })
+      ]);
+    } catch (e) {
+      console.warn('Kernel request failed', e);
+      return null;
+    } finally {
+      window.clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Summarise names in the user namespace of a Python kernel.
+   */
+  export async function queryNames(
+    kernel: Kernel.IKernelConnection
+  ): Promise<string[]> {
+    const expression = `(lambda ns: (exec(${JSON.stringify(
+      PYTHON_SUMMARY
+    )}, ns), ns['_summarize'](globals(), ${MAX_NAMES}))[1])({})`;
+    const future = kernel.requestExecute({
+      code: '',
+      silent: true,
+      store_history: false,
+      user_expressions: { summary: expression }
+    });
+    const reply = await withTimeout(future.done);
+    if (!reply || reply.content.status !== 'ok') {
+      return [];
+    }
+    const result = reply.content.user_expressions['summary'] as {
+      status: string;
+      data?: { 'text/plain'?: string };
+    };
+    const text = result?.status === 'ok' ? result.data?.['text/plain'] : null;
+    try {
+      return text ? JSON.parse(text) : [];
+    } catch (e) {
+      console.warn('Could not parse kernel summary', text);
+      return [];
+    }
+  }
+
+  /**
+   * Get signature of a function using an inspection request.
+   */
+  export async function querySignature(
+    kernel: Kernel.IKernelConnection,
+    name: string
+  ): Promise<string | null> {
+    const reply = await withTimeout(
+      kernel.requestInspect({
+        code: name,
+        cursor_pos: name.length,
+        detail_level: 0
+      })
+    );
+    if (!reply || reply.content.status !== 'ok' || !reply.content.found) {
+      return null;
+    }
+    const text = reply.content.data['text/plain'] as string | undefined;
+    if (!text) {
+      return null;
+    }
+    // inspection replies are colored with ANSI escape sequences
+    const plain = stripAnsi(text);
+    // IPython replies with sections such as `Signature:` and `Docstring:`
+    const match = plain.match(
+      /(?:^|\n)(?:Init )?[Ss]ignature:\s*([\s\S]*?)(?=\n\S[\w ]*:|$)/
+    );
+    const signature = (match ? match[1] : plain.split('\n')[0])
+      .replace(/\s+/g, ' ')
+      .trim();
+    return signature ? signature.slice(0, 200) : null;
+  }
+
+  /**
+   * Find names of functions called in the last lines before the cursor,
+   * nearest first.
+   */
+  export function calledNames(prefix: string): string[] {
+    const tail = prefix.split('\n').slice(-5).join('\n');
+    const names: string[] = [];
+    for (const match of tail.matchAll(/([A-Za-z_][\w.]*)\s*\(/g)) {
+      const name = match[1];
+      if (!KEYWORDS.has(name) && !names.includes(name)) {
+        names.push(name);
+      }
+    }
+    return names.reverse().slice(0, MAX_SIGNATURES);
+  }
+
+  const KEYWORDS = new Set([
+    'if',
+    'elif',
+    'while',
+    'for',
+    'return',
+    'print',
+    'and',
+    'or',
+    'not',
+    'in',
+    'lambda',
+    'with',
+    'assert',
+    'yield',
+    'function'
+  ]);
+}
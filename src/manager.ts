@@ -0,0 +1,189 @@
+import { ISignal, Signal } from '@lumino/signaling';
+import type { ModelRegistry } from './registry';
+import type { ClientMessage, WorkerMessage } from './types';
+
+/**
+ * Loading state of a model.
+ */
+export type ModelState =
+  | 'not-downloaded'
+  | 'cached'
+  | 'downloading'
+  | 'compiling'
+  | 'loaded'
+  | 'failed';
+
+/**
+ * State of a model along with information about its cached artifacts.
+ */
+export interface IModelStatus {
+  state: ModelState;
+  /**
+   * Progress of downloading or compiling, between zero and one.
+   */
+  progress: number | null;
+  /**
+   * Size of artifacts in the browser cache in bytes, if known.
+   */
+  cachedSize: number | null;
+  /**
+   * Error message if the model failed to load.
+   */
+  error: string | null;
+}
+
+/**
+ * Tracks loading state of models in the worker and manages their lifecycle
+ * and artifacts cached in the browser storage.
+ */
+export class ModelManager {
+  constructor(protected options: ModelManager.IOptions) {}
+
+  /**
+   * Signal emitted with model identifier when status of the model changes.
+   */
+  get changed(): ISignal<ModelManager, string> {
+    return this._changed;
+  }
+
+  get registry(): ModelRegistry {
+    return this.options.registry;
+  }
+
+  /**
+   * Get status of a model.
+   */
+  status(model: string): IModelStatus {
+    return (
+      this._statuses.get(model) ?? {
+        state: 'not-downloaded',
+        progress: null,
+        cachedSize: null,
+        error: null
+      }
+    );
+  }
+
+  /**
+   * Download (if needed) and compile the model.
+   */
+  preload(model: string) {
+    this.options.postMessage({ action: 'initializeModel', model });
+  }
+
+  /**
+   * Unload the model from the GPU, keeping cached artifacts.
+   */
+  unload(model: string) {
+    this.options.postMessage({ action: 'disposeModel', model });
+  }
+
+  /**
+   * Stop downloading or compiling the model.
+   */
+  cancel(model: string) {
+    this.options.postMessage({ action: 'cancelLoading', model });
+  }
+
+  /**
+   * Delete weights, configuration and library of the model from the browser cache.
+   */
+  deleteCache(model: string) {
+    this.options.postMessage({ action: 'deleteCache', model });
+  }
+
+  /**
+   * Query the worker for cached artifacts of all models in the registry.
+   */
+  refresh() {
+    this.options.postMessage({
+      action: 'queryCache',
+      models: this.registry.models().map(model => model.model_id)
+    });
+  }
+
+  /**
+   * Handle message from the worker, ignoring messages unrelated to models.
+   */
+  handleMessage(data: ModelManager.Message) {
+    switch (data.status) {
+      case 'initiate':
+        this._update(data.model, {
+          state: 'downloading',
+          progress: 0,
+          error: null
+        });
+        break;
+      case 'progress':
+        this._update(data.model, {
+          // web-llm reports compilation as loading of shader modules
+          state: /shader/i.test(data.text) ? 'compiling' : 'downloading',
+          progress: data.progress
+        });
+        break;
+      case 'ready':
+        this._update(data.model, { state: 'loaded', progress: null });
+        break;
+      case 'unloaded':
+        this._update(data.model, { state: 'cached', progress: null });
+        this.options.postMessage({
+          action: 'queryCache',
+          models: [data.model]
+        });
+        break;
+      case 'cache-info': {
+        const active = ['downloading', 'compiling', 'loaded'];
+        this._update(data.model, {
+          cachedSize: data.size,
+          ...(active.includes(this.status(data.model).state)
+            ? {}
+            : { state: data.cached ? 'cached' : 'not-downloaded' })
+        });
+        break;
+      }
+      case 'exception':
+        // failed generations do not change the state of the model
+        if (data.model && !data.requestId) {
+          this._update(data.model, {
+            state: 'failed',
+            progress: null,
+            error: data.error.message
+          });
+        }
+        break;
+    }
+  }
+
+  private _update(model: string, change: Partial<IModelStatus>) {
+    this._statuses.set(model, { ...this.status(model), ...change });
+    this._changed.emit(model);
+  }
+
+  private _changed = new Signal<ModelManager, string>(this);
+  private _statuses: Map<string, IModelStatus> = new Map();
+}
+
+export namespace ModelManager {
+  export interface IOptions {
+    registry: ModelRegistry;
+    postMessage: (
+      message:
+        | ClientMessage.IInitializeModel
+        | ClientMessage.IDisposeModel
+        | ClientMessage.ICancelLoading
+        | ClientMessage.IQueryCache
+        | ClientMessage.IDeleteCache
+    ) => void;
+  }
+
+  /**
+   * Messages from the worker which affect status of models.
+   */
+  export type Message =
+    | WorkerMessage.IInitiate
+    | WorkerMessage.IProgress
+    | WorkerMessage.IReady
+    | WorkerMessage.IUnloaded
+    | WorkerMessage.ICacheInfo
+    | WorkerMessage.IException;
+}
@@ -0,0 +1,96 @@
+/**
+ * Sentinel tokens used to prompt a model for fill-in-the-middle completion.
+ *
+ * All supported families use the prefix-suffix-middle (PSM) ordering.
+ */
+export interface IFimTokens {
+  prefix: string;
+  suffix: string;
+  middle: string;
+}
+
+/**
+ * Capabilities of a model which affect how it should be prompted.
+ */
+export interface IModelCapabilities {
+  /**
+   * Fill-in-the-middle tokens; absent if model was not trained for infilling.
+   */
+  fim?: IFimTokens;
+}
+
+/**
+ * Capabilities of known model families, matched against the model identifier.
+ */
+const CAPABILITY_TABLE: {
+  pattern: RegExp;
+  capabilities: IModelCapabilities;
+}[] = [
+  {
+    pattern: /^CodeLlama/i,
+    capabilities: {
+      fim: { prefix: '<PRE> ', suffix: ' <SUF>', middle: ' <MID>' }
+    }
+  },
+  {
+    pattern: /^(starcoder|tiny_starcoder)/i,
+    capabilities: {
+      fim: {
+        prefix: '<fim_prefix>',
+        suffix: '<fim_suffix>',
+        middle: '<fim_middle>'
+      }
+    }
+  },
+  {
+    pattern: /^(Qwen2\.5-Coder|codegemma)/i,
+    capabilities: {
+      fim: {
+        prefix: '<|fim_prefix|>',
+        suffix: '<|fim_suffix|>',
+        middle: '<|fim_middle|>'
+      }
+    }
+  },
+  {
+    pattern: /^deepseek-coder/i,
+    capabilities: {
+      fim: {
+        prefix: '<｜fim▁begin｜>',
+        suffix: '<｜fim▁hole｜>',
+        middle: '<｜fim▁end｜>'
+      }
+    }
+  }
+];
+
+/**
+ * Get capabilities of model with given identifier.
+ */
+export function getModelCapabilities(model: string): IModelCapabilities {
+  for (const entry of CAPABILITY_TABLE) {
+    if (entry.pattern.test(model)) {
+      return entry.capabilities;
+    }
+  }
+  return {};
+}
+
+/**
+ * Format prefix and suffix as a fill-in-the-middle prompt.
+ */
+export function formatFim(
+  tokens: IFimTokens,
+  prefix: string,
+  suffix: string
+): string {
+  return tokens.prefix + prefix + tokens.suffix + suffix + tokens.middle;
+}
+
+/**
+ * Text around the cursor sent to a model prompted for fill-in-the-middle.
+ */
+export interface IInfill {
+  prefix: string;
+  suffix: string;
+}
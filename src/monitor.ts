@@ -0,0 +1,94 @@
+import { ISignal, Signal } from '@lumino/signaling';
+import type { WorkerMessage } from './types';
+
+/**
+ * Maximum number of finished generations kept in the history.
+ */
+const HISTORY_SIZE = 20;
+
+/**
+ * Timing of a generation request.
+ */
+export interface IGenerationTiming {
+  requestId: string;
+  model: string;
+  /**
+   * Time to first token in milliseconds, or `null` if no token was generated yet.
+   */
+  timeToFirstToken: number | null;
+  /**
+   * Decoding throughput (after the first token), or `null` if not known yet.
+   */
+  tokensPerSecond: number | null;
+  completionTokens: number;
+  promptTokens: number | null;
+  /**
+   * Duration of the generation in milliseconds.
+   */
+  elapsed: number;
+}
+
+/**
+ * Collects timing of generations reported by the worker.
+ */
+export class GenerationMonitor {
+  /**
+   * Signal emitted when a generation starts, progresses or finishes.
+   */
+  get changed(): ISignal<GenerationMonitor, void> {
+    return this._changed;
+  }
+
+  /**
+   * Generations which are currently running.
+   */
+  get running(): IGenerationTiming[] {
+    return [...this._running.values()];
+  }
+
+  /**
+   * Recently finished generations, latest first.
+   */
+  get history(): IGenerationTiming[] {
+    return this._history;
+  }
+
+  /**
+   * Record statistics reported by the worker.
+   */
+  handleStats(data: WorkerMessage.IGenerationStats) {
+    const decoding =
+      data.timeToFirstToken !== null
+        ? (data.elapsed - data.timeToFirstToken) / 1000
+        : 0;
+    const timing: IGenerationTiming = {
+      requestId: data.requestId,
+      model: data.model,
+      timeToFirstToken: data.timeToFirstToken,
+      tokensPerSecond: decoding > 0 ? data.completionTokens / decoding : null,
+      completionTokens: data.completionTokens,
+      promptTokens: data.promptTokens,
+      elapsed: data.elapsed
+    };
+    if (data.done) {
+      this._running.delete(data.requestId);
+      this._history = [timing, ...this._history].slice(0, HISTORY_SIZE);
+    } else {
+      this._running.set(data.requestId, timing);
+    }
+    this._changed.emit();
+  }
+
+  /**
+   * Forget generation which did not finish (e.g. was interrupted).
+   */
+  discard(requestId: string) {
+    if (this._running.delete(requestId)) {
+      this._changed.emit();
+    }
+  }
+
+  private _changed = new Signal<GenerationMonitor, void>(this);
+  private _history: IGenerationTiming[] = [];
+  private _running: Map<string, IGenerationTiming> = new Map();
+}
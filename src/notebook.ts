@@ -0,0 +1,360 @@
+import type { ICellModel, ICodeCellModel } from '@jupyterlab/cells';
+import type * as nbformat from '@jupyterlab/nbformat';
+import type { INotebookModel, Notebook } from '@jupyterlab/notebook';
+import type { ITokenMeasure } from './tokenizer';
+
+/**
+ * Maximum number of lines included from a single cell output.
+ */
+const MAX_OUTPUT_LINES = 10;
+
+/**
+ * Syntax of a kernel language relevant to formatting notebook context
+ * and to recognising comments and strings.
+ */
+export interface ILanguageSyntax {
+  /**
+   * Line comment marker.
+   */
+  comment: string;
+  /**
+   * Opening and closing block comment markers, if any.
+   */
+  blockComment?: [string, string];
+  /**
+   * String delimiters, longest first; single-character delimiters other than
+   * a backtick do not span multiple lines.
+   */
+  strings: string[];
+  /**
+   * Pattern matching lines which import modules or packages.
+   */
+  imports: RegExp;
+}
+
+const DEFAULT_SYNTAX: ILanguageSyntax = {
+  comment: '#',
+  strings: ['"""', "'''", '"', "'"],
+  imports: /^\s*(import|from)\s+[\w.]+/
+};
+
+const C_LIKE_COMMENTS: Pick<ILanguageSyntax, 'comment' | 'blockComment'> = {
+  comment: '//',
+  blockComment: ['/*', '*/']
+};
+
+const JS_SYNTAX: ILanguageSyntax = {
+  ...C_LIKE_COMMENTS,
+  strings: ['"', "'", '`'],
+  imports: /^\s*(import\s|(const|let|var)\s+.*=\s*require\s*\()/
+};
+
+const LANGUAGE_SYNTAX: Record<string, ILanguageSyntax> = {
+  python: DEFAULT_SYNTAX,
+  r: {
+    comment: '#',
+    strings: ['"', "'"],
+    imports: /^\s*(library|require)\s*\(/
+  },
+  julia: {
+    comment: '#',
+    blockComment: ['#=', '=#'],
+    strings: ['"""', '"'],
+    imports: /^\s*(using|import)\s+\w/
+  },
+  javascript: JS_SYNTAX,
+  typescript: JS_SYNTAX,
+  scala: {
+    ...C_LIKE_COMMENTS,
+    strings: ['"""', '"'],
+    imports: /^\s*import\s+/
+  },
+  java: { ...C_LIKE_COMMENTS, strings: ['"'], imports: /^\s*import\s+/ },
+  'c++': {
+    ...C_LIKE_COMMENTS,
+    strings: ['"'],
+    imports: /^\s*#include\s*[<"]/
+  },
+  rust: {
+    ...C_LIKE_COMMENTS,
+    strings: ['"'],
+    imports: /^\s*(use|extern crate)\s+/
+  },
+  go: { ...C_LIKE_COMMENTS, strings: ['"', '`'], imports: /^\s*import\s+/ },
+  haskell: {
+    comment: '--',
+    blockComment: ['{-', '-}'],
+    strings: ['"'],
+    imports: /^\s*import\s+/
+  },
+  lua: {
+    comment: '--',
+    blockComment: ['--[[', ']]'],
+    strings: ['"', "'"],
+    imports: /^\s*(local\s+\w+\s*=\s*)?require\s*[("']/
+  }
+};
+
+/**
+ * Get syntax of given kernel language, falling back to Python-like syntax.
+ */
+export function languageSyntax(language: string): ILanguageSyntax {
+  return LANGUAGE_SYNTAX[language] ?? DEFAULT_SYNTAX;
+}
+
+/**
+ * Color codes of ANSI escape sequences, as used in tracebacks and in
+ * replies of IPython kernels.
+ */
+const ANSI_COLOR = new RegExp(String.fromCharCode(27) + '\\[[\\d;]*m', 'g');
+
+/**
+ * Remove ANSI color codes from text.
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_COLOR, '');
+}
+
+/**
+ * Formatting of cells as a contiguous document.
+ */
+interface ICellFormat {
+  /**
+   * Separator preceding the cell which is being completed.
+   */
+  current: string;
+  /**
+   * Format a preceding cell.
+   */
+  cell(cell: ICellModel, includeOutputs: boolean): string;
+  /**
+   * Format a block of import statements.
+   */
+  imports(lines: string[]): string;
+}
+
+/**
+ * Build context from cells preceding the active cell of a notebook.
+ *
+ * The returned text ends with the separator for the active cell, so it can
+ * be directly prepended to the prefix of the active cell. Cells are added
+ * starting from the nearest one for as long as they fit in the `budget`
+ * (in tokens); then imports from the remaining cells are added.
+ * Returns an empty string if no preceding cell fits.
+ */
+export async function buildNotebookContext(
+  notebook: Notebook,
+  options: NotebookContext.IOptions
+): Promise<string> {
+  const model = notebook.model;
+  const active = notebook.activeCellIndex;
+  if (!model || active <= 0 || active >= model.cells.length) {
+    return '';
+  }
+  const language = notebookLanguage(model);
+  const syntax = languageSyntax(language);
+  const format =
+    model.cells.get(active).type === 'markdown'
+      ? Private.markdownFormat(language)
+      : Private.scriptFormat(syntax);
+
+  const cells: string[] = [];
+  for (let i = active - 1; i >= 0; i--) {
+    cells.push(format.cell(model.cells.get(i), options.includeOutputs));
+  }
+  const imports: { index: number; line: string }[] = [];
+  for (let i = 0; i < active; i++) {
+    const cell = model.cells.get(i);
+    if (cell.type !== 'code') {
+      continue;
+    }
+    for (const line of cell.sharedModel.getSource().split('\n')) {
+      if (syntax.imports.test(line)) {
+        imports.push({ index: i, line });
+      }
+    }
+  }
+  const [currentTokens, importsTokens, ...counts] = await options.measure.count(
+    [
+      format.current,
+      format.imports([]),
+      ...cells,
+      ...imports.map(entry => entry.line + '\n')
+    ]
+  );
+
+  let budget = options.budget - currentTokens;
+  let first = active;
+  for (let i = 0; i < cells.length; i++) {
+    if (counts[i] > budget) {
+      break;
+    }
+    budget -= counts[i];
+    first = active - 1 - i;
+  }
+
+  const importLines: string[] = [];
+  budget -= importsTokens;
+  for (let i = 0; i < imports.length; i++) {
+    const tokens = counts[cells.length + i];
+    if (imports[i].index >= first || tokens > budget) {
+      continue;
+    }
+    importLines.push(imports[i].line);
+    budget -= tokens;
+  }
+
+  if (first === active && importLines.length === 0) {
+    return '';
+  }
+  return (
+    (importLines.length > 0 ? format.imports(importLines) : '') +
+    cells
+      .slice(0, active - first)
+      .reverse()
+      .join('') +
+    format.current
+  );
+}
+
+/**
+ * Format all cells of a notebook as a Markdown document with fenced code
+ * blocks, e.g. to pass the whole notebook to a chat model.
+ */
+export function notebookAsMarkdown(
+  model: INotebookModel,
+  includeOutputs: boolean
+): string {
+  const format = Private.markdownFormat(notebookLanguage(model));
+  let text = '';
+  for (let i = 0; i < model.cells.length; i++) {
+    text += format.cell(model.cells.get(i), includeOutputs);
+  }
+  return text.trimEnd();
+}
+
+/**
+ * Get the kernel language of a notebook (lowercase), or empty string if not known.
+ */
+export function notebookLanguage(model: INotebookModel): string {
+  return (
+    model.getMetadata('language_info')?.name ??
+    model.getMetadata('kernelspec')?.language ??
+    ''
+  ).toLowerCase();
+}
+
+export namespace NotebookContext {
+  export interface IOptions {
+    /**
+     * Number of tokens available for the preceding cells.
+     */
+    budget: number;
+    /**
+     * Measure of the text length in tokens.
+     */
+    measure: ITokenMeasure;
+    /**
+     * Whether to include text outputs of code cells.
+     */
+    includeOutputs: boolean;
+  }
+}
+
+namespace Private {
+  /**
+   * Format cells as a script using percent cell separators.
+   */
+  export function scriptFormat(syntax: ILanguageSyntax): ICellFormat {
+    const marker = syntax.comment + ' %%';
+    const comment = (text: string) =>
+      text
+        .split('\n')
+        .map(line => (line ? syntax.comment + ' ' + line : syntax.comment))
+        .join('\n') + '\n';
+    return {
+      current: marker + '\n',
+      cell: (cell, includeOutputs) => {
+        const source = cell.sharedModel.getSource();
+        if (cell.type === 'markdown') {
+          return marker + ' [markdown]\n' + comment(source) + '\n';
+        }
+        if (cell.type !== 'code') {
+          return '';
+        }
+        let text = marker + '\n' + source + '\n';
+        const outputs = includeOutputs ? outputText(cell) : '';
+        if (outputs) {
+          text += syntax.comment + ' Output:\n' + comment(outputs);
+        }
+        return text + '\n';
+      },
+      imports: lines => marker + '\n' + lines.join('\n') + '\n\n'
+    };
+  }
+
+  /**
+   * Format cells as a Markdown document with fenced code blocks.
+   */
+  export function markdownFormat(language: string): ICellFormat {
+    const fence = (text: string, info = '') =>
+      '```' + info + '\n' + text + '\n```\n\n';
+    return {
+      current: '',
+      cell: (cell, includeOutputs) => {
+        const source = cell.sharedModel.getSource();
+        if (cell.type === 'markdown') {
+          return source + '\n\n';
+        }
+        if (cell.type !== 'code') {
+          return '';
+        }
+        const outputs = includeOutputs ? outputText(cell) : '';
+        return fence(source, language) + (outputs ? fence(outputs) : '');
+      },
+      imports: lines => fence(lines.join('\n'), language)
+    };
+  }
+
+  /**
+   * Join multiline string of notebook format.
+   */
+  export function joinText(text: nbformat.MultilineString): string {
+    return Array.isArray(text) ? text.join('') : text;
+  }
+
+  /**
+   * Extract text of outputs of a code cell.
+   */
+  export function outputText(cell: ICellModel): string {
+    const outputs = (cell as ICodeCellModel).outputs?.toJSON() ?? [];
+    const chunks: string[] = [];
+    for (const output of outputs) {
+      switch (output.output_type) {
+        case 'stream':
+          chunks.push(joinText((output as nbformat.IStream).text));
+          break;
+        case 'execute_result':
+        case 'display_data': {
+          const data = (output as nbformat.IExecuteResult).data;
+          if (data['text/plain']) {
+            chunks.push(
+              joinText(data['text/plain'] as nbformat.MultilineString)
+            );
+          }
+          break;
+        }
+        case 'error': {
+          const error = output as nbformat.IError;
+          chunks.push(`${error.ename}: ${error.evalue}`);
+          break;
+        }
+      }
+    }
+    const lines = chunks.join('\n').trimEnd().split('\n');
+    if (lines.length > MAX_OUTPUT_LINES) {
+      return [...lines.slice(0, MAX_OUTPUT_LINES), '...'].join('\n');
+    }
+    return lines.join('\n');
+  }
+}
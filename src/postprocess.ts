@@ -0,0 +1,172 @@
+import { trimSuffixOverlap } from './context';
+
+/**
+ * Information about the request for which the suggestion was generated.
+ */
+export interface IProcessingContext {
+  /**
+   * Text before the cursor provided to the model.
+   */
+  prefix: string;
+  /**
+   * Text after the cursor provided to the model.
+   */
+  suffix: string;
+  language: string;
+  contentType: 'code' | 'text';
+}
+
+/**
+ * Transforms generated text into a suggestion.
+ *
+ * Processors are applied to the whole text generated so far on every update,
+ * hence they should not assume that the text is complete unless `done`.
+ */
+export interface IPostProcessor {
+  /**
+   * Identifier of the processor.
+   */
+  name: string;
+  process(text: string, context: IProcessingContext, done: boolean): string;
+}
+
+/**
+ * Remove Markdown code fences which chat models wrap code in, along with
+ * any explanation following the closing fence.
+ */
+export const stripFences: IPostProcessor = {
+  name: 'fences',
+  process: (text, context, done) => {
+    if (context.contentType !== 'code') {
+      return text;
+    }
+    if (!done && /^\s*`{1,3}[\w+-]*$/.test(text)) {
+      // opening fence (or its info string) is still being generated
+      return '';
+    }
+    const opening = text.match(/^\s*```[\w+-]*[^\S\n]*\n/);
+    if (opening) {
+      text = text.slice(opening[0].length);
+    }
+    const closing = text.search(/^[^\S\n]*```/m);
+    return closing === -1 ? text : text.slice(0, closing);
+  }
+};
+
+/**
+ * Remove the repeated end of the prefix which chat models tend to echo
+ * before continuing it; at least the current line has to be repeated.
+ */
+export const stripEcho: IPostProcessor = {
+  name: 'echo',
+  process: (text, context, done) => {
+    const prefix = context.prefix;
+    const linePrefix = prefix.slice(prefix.lastIndexOf('\n') + 1);
+    if (
+      !done &&
+      linePrefix.trim() &&
+      text.length < linePrefix.length &&
+      linePrefix.startsWith(text)
+    ) {
+      // the echo of the current line may be still being generated
+      return '';
+    }
+    const longest = Math.min(text.length, prefix.length);
+    for (let k = longest; k >= Math.max(linePrefix.length, 1); k--) {
+      const echo = text.slice(0, k);
+      if (echo.trim() && prefix.endsWith(echo)) {
+        return text.slice(k);
+      }
+    }
+    return text;
+  }
+};
+
+/**
+ * Remove the part of suggestion which repeats the text after the cursor.
+ */
+export const stripSuffixOverlap: IPostProcessor = {
+  name: 'suffix-overlap',
+  process: (text, context) => trimSuffixOverlap(text, context.suffix)
+};
+
+/**
+ * Cut the suggestion before the first line which dedents past the
+ * indentation of the line with the cursor, i.e. leaves the enclosing block.
+ */
+export const stopAtDedent: IPostProcessor = {
+  name: 'stop-at-dedent',
+  process: (text, context) => {
+    const linePrefix = context.prefix.slice(
+      context.prefix.lastIndexOf('\n') + 1
+    );
+    const level = Private.indentation(linePrefix);
+    if (level === 0) {
+      return text;
+    }
+    const lines = text.split('\n');
+    for (let i = 1; i < lines.length; i++) {
+      if (lines[i].trim() && Private.indentation(lines[i]) < level) {
+        return lines.slice(0, i).join('\n') + '\n';
+      }
+    }
+    return text;
+  }
+};
+
+/**
+ * Language-specific rules for where the suggestion should end, keyed by language.
+ */
+export const STOP_RULES: Record<string, IPostProcessor[]> = {
+  python: [stopAtDedent]
+};
+
+/**
+ * Processors applied before the language-specific stop rules.
+ */
+export const DEFAULT_POST_PROCESSORS: IPostProcessor[] = [
+  stripFences,
+  stripEcho
+];
+
+/**
+ * Apply `processors`, followed by stop rules for the language and
+ * the removal of text repeating the suffix.
+ */
+export function postProcess(
+  text: string,
+  context: IProcessingContext,
+  done: boolean,
+  processors: IPostProcessor[] = DEFAULT_POST_PROCESSORS
+): string {
+  const chain = [
+    ...processors,
+    ...(STOP_RULES[context.language] ?? []),
+    stripSuffixOverlap
+  ];
+  for (const processor of chain) {
+    text = processor.process(text, context, done);
+  }
+  return text;
+}
+
+/**
+ * Whether a finished candidate is empty or duplicates one of `accepted` candidates.
+ */
+export function isRedundant(text: string, accepted: string[]): boolean {
+  const normalized = text.trimEnd();
+  return (
+    normalized.trim().length === 0 ||
+    accepted.some(other => other.trimEnd() === normalized)
+  );
+}
+
+namespace Private {
+  /**
+   * Width of leading whitespace, counting tabs as four spaces.
+   */
+  export function indentation(line: string): number {
+    const leading = line.match(/^[^\S\n]*/)![0];
+    return leading.replace(/\t/g, '    ').length;
+  }
+}
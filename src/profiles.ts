@@ -0,0 +1,152 @@
+import type { GenerationConfig } from '@mlc-ai/web-llm';
+import { Descriptions } from './descriptions';
+
+/**
+ * Generation parameters which can be set per model and content type.
+ */
+export type IGenerationProfile = Pick<
+  GenerationConfig,
+  | 'temperature'
+  | 'top_p'
+  | 'max_gen_len'
+  | 'frequency_penalty'
+  | 'presence_penalty'
+  | 'stop'
+>;
+
+/**
+ * Defaults for each content type: prose benefits from more diverse sampling
+ * while code is best generated with (nearly) greedy decoding.
+ */
+export const CONTENT_TYPE_PROFILES: Record<
+  'code' | 'text',
+  IGenerationProfile
+> = {
+  code: {
+    temperature: 0.1,
+    top_p: 0.9,
+    max_gen_len: 128,
+    frequency_penalty: 0,
+    presence_penalty: 0
+  },
+  text: {
+    temperature: 0.9,
+    top_p: 0.95,
+    max_gen_len: 256,
+    frequency_penalty: 0.2,
+    presence_penalty: 0.2
+  }
+};
+
+/**
+ * Defaults for known model families, matched against the model identifier.
+ */
+const FAMILY_PROFILES: {
+  pattern: RegExp;
+  contentType?: 'code' | 'text';
+  profile: IGenerationProfile;
+}[] = [
+  {
+    // small models are prone to repeating themselves
+    pattern: /^(Phi|TinyLlama|RedPajama|gemma-2b)/i,
+    profile: { frequency_penalty: 0.3 }
+  },
+  {
+    pattern: /^Llama-3/i,
+    contentType: 'text',
+    profile: { temperature: 0.6, top_p: 0.9 }
+  },
+  {
+    pattern: /^Mistral/i,
+    contentType: 'text',
+    profile: { temperature: 0.7 }
+  }
+];
+
+/**
+ * Resolve effective generation parameters for model and content type.
+ *
+ * Profiles from settings can be keyed by content type (`code`), model
+ * identifier, or model identifier and content type (`model/code`); more
+ * specific profiles override less specific ones, all overriding defaults
+ * for the content type and model family.
+ */
+export function resolveProfile(
+  model: string,
+  contentType: 'code' | 'text',
+  profiles: Record<string, IGenerationProfile>
+): IGenerationProfile {
+  const layers = [
+    CONTENT_TYPE_PROFILES[contentType],
+    ...FAMILY_PROFILES.filter(
+      entry =>
+        entry.pattern.test(model) &&
+        (!entry.contentType || entry.contentType === contentType)
+    ).map(entry => entry.profile),
+    profiles[contentType],
+    profiles[model],
+    profiles[`${model}/${contentType}`]
+  ];
+  const resolved: IGenerationProfile = {};
+  for (const layer of layers) {
+    if (!layer) {
+      continue;
+    }
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) {
+        (resolved as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+  return resolved;
+}
+
+/**
+ * JSON schema of a generation profile.
+ */
+export const PROFILE_SCHEMA = {
+  type: 'object',
+  properties: {
+    temperature: {
+      minimum: 0,
+      type: 'number',
+      title: 'Temperature',
+      description: Descriptions['temperature']
+    },
+    top_p: {
+      minimum: 0,
+      maximum: 1,
+      type: ['number', 'null'],
+      title: 'Top P',
+      description: Descriptions['top_p']
+    },
+    max_gen_len: {
+      minimum: 1,
+      maximum: 512,
+      type: 'number',
+      title: 'Tokens limit',
+      description: 'Maximum number of new tokens.'
+    },
+    frequency_penalty: {
+      minimum: -2,
+      maximum: 2,
+      type: 'number',
+      title: 'Frequency penalty',
+      description: Descriptions['frequency_penalty']
+    },
+    presence_penalty: {
+      minimum: -2,
+      maximum: 2,
+      type: 'number',
+      title: 'Presence penalty',
+      description: Descriptions['presence_penalty']
+    },
+    stop: {
+      type: 'array',
+      items: { type: 'string' },
+      title: 'Stop sequences',
+      description: 'Sequences at which the generation should stop.'
+    }
+  },
+  additionalProperties: false
+};
@@ -0,0 +1,132 @@
+import type { ChatCompletionMessageParam } from '@mlc-ai/web-llm';
+import { formatFim, IFimTokens } from './models';
+
+/**
+ * Template of the messages sent to the model.
+ *
+ * Both messages can use `{language}`, `{fileName}`, `{prefix}` and `{suffix}` placeholders.
+ */
+export interface IPromptTemplate {
+  /**
+   * System message; skipped if it renders to an empty string.
+   */
+  system: string;
+  /**
+   * User message.
+   */
+  user: string;
+}
+
+/**
+ * Values substituted for placeholders in prompt templates.
+ */
+export interface IPromptVariables {
+  language: string;
+  fileName: string;
+  prefix: string;
+  suffix: string;
+}
+
+/**
+ * Prompt for a single generation request.
+ */
+export interface IPrompt {
+  template: IPromptTemplate;
+  variables: IPromptVariables;
+  /**
+   * Fill-in-the-middle tokens if the model is prompted for infilling with
+   * the prefix and suffix variables instead of the template.
+   */
+  fim?: IFimTokens;
+}
+
+/**
+ * Templates used when no template matches the language or mimetype.
+ */
+export const DEFAULT_TEMPLATES: Record<'code' | 'text', IPromptTemplate> = {
+  code: {
+    system:
+      'You are a code completion engine for {language}. Reply only with the code which should be inserted at the cursor, without any explanation nor Markdown formatting.',
+    user: 'File: {fileName}\n\nCode before the cursor:\n{prefix}\n\nCode after the cursor:\n{suffix}\n\nWrite the code to insert at the cursor.'
+  },
+  text: {
+    system:
+      'You are a writing assistant completing Markdown documents. Reply only with the text which should be inserted at the cursor, without any explanation.',
+    user: 'File: {fileName}\n\nText before the cursor:\n{prefix}\n\nText after the cursor:\n{suffix}\n\nWrite the text to insert at the cursor.'
+  }
+};
+
+/**
+ * Select the first template matching one of `keys`, in order.
+ *
+ * The keys are typically the kernel language, the mimetype, and the content type.
+ */
+export function selectTemplate(
+  templates: Record<string, IPromptTemplate>,
+  keys: string[],
+  contentType: 'code' | 'text'
+): IPromptTemplate {
+  for (const key of keys) {
+    if (key && templates[key]) {
+      return templates[key];
+    }
+  }
+  return templates[contentType] ?? DEFAULT_TEMPLATES[contentType];
+}
+
+/**
+ * Substitute placeholders in a template string.
+ */
+export function renderTemplate(
+  template: string,
+  variables: IPromptVariables
+): string {
+  return template.replace(
+    /\{(language|fileName|prefix|suffix)\}/g,
+    (_match, name: keyof IPromptVariables) => variables[name]
+  );
+}
+
+/**
+ * Render template into chat messages.
+ */
+export function renderMessages(
+  template: IPromptTemplate,
+  variables: IPromptVariables
+): ChatCompletionMessageParam[] {
+  const messages: ChatCompletionMessageParam[] = [];
+  const system = renderTemplate(template.system, variables);
+  if (system) {
+    messages.push({ role: 'system', content: system });
+  }
+  messages.push({
+    role: 'user',
+    content: renderTemplate(template.user, variables)
+  });
+  return messages;
+}
+
+/**
+ * Get chat messages for prompt; empty for fill-in-the-middle prompts,
+ * which are sent as `promptText`.
+ */
+export function promptMessages(prompt: IPrompt): ChatCompletionMessageParam[] {
+  if (prompt.fim) {
+    return [];
+  }
+  return renderMessages(prompt.template, prompt.variables);
+}
+
+/**
+ * Get text of fill-in-the-middle prompt, or `null` for chat prompts.
+ */
+export function promptText(prompt: IPrompt): string | null {
+  if (!prompt.fim) {
+    return null;
+  }
+  return formatFim(
+    prompt.fim,
+    prompt.variables.prefix,
+    prompt.variables.suffix
+  );
+}
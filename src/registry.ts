@@ -0,0 +1,233 @@
+import { PageConfig, URLExt } from '@jupyterlab/coreutils';
+import { prebuiltAppConfig } from '@mlc-ai/web-llm';
+import type { AppConfig, ModelRecord } from '@mlc-ai/web-llm';
+import type { IServerEndpoint } from './backend';
+import { getModelCapabilities, IFimTokens, IModelCapabilities } from './models';
+
+/**
+ * Tag describing what a model can be used for.
+ */
+export type ModelTag = 'code' | 'text' | 'fim';
+
+/**
+ * Model record with tags used to filter models offered for each content type.
+ */
+export interface ITaggedModelRecord extends ModelRecord {
+  tags: ModelTag[];
+  /**
+   * Fill-in-the-middle tokens, overriding those of known model families.
+   */
+  fim?: IFimTokens;
+  /**
+   * Server running the model, if the model does not run in the browser.
+   */
+  server?: IServerEndpoint;
+}
+
+/**
+ * Model declared by the user in settings.
+ *
+ * If tags are empty, these are inferred from the model identifier.
+ */
+export interface ICustomModel extends Omit<ITaggedModelRecord, 'tags'> {
+  tags?: ModelTag[];
+}
+
+/**
+ * Model served by an OpenAI-compatible server, declared by the user in settings.
+ */
+export interface IServerModel extends IServerEndpoint {
+  model_id: string;
+  tags?: ModelTag[];
+  fim?: IFimTokens;
+}
+
+/**
+ * Registry of models available for completion, merging the prebuilt models of
+ * web-llm with custom models declared in settings.
+ */
+export class ModelRegistry {
+  constructor() {
+    this._prebuilt = prebuiltAppConfig.model_list.map(record => ({
+      ...record,
+      tags: Private.inferTags(record.model_id)
+    }));
+  }
+
+  /**
+   * Replace the custom models; custom models take precedence over prebuilt models with the same identifier.
+   */
+  setCustomModels(models: ICustomModel[]) {
+    this._custom = new Map(
+      models.map(model => [
+        model.model_id,
+        {
+          ...model,
+          model_url: Private.resolveUrl(model.model_url, true),
+          model_lib_url: Private.resolveUrl(model.model_lib_url, false),
+          tags:
+            model.tags && model.tags.length > 0
+              ? model.tags
+              : Private.inferTags(model.model_id, model.fim)
+        }
+      ])
+    );
+  }
+
+  /**
+   * Replace the models served by OpenAI-compatible servers; these take
+   * precedence over custom and prebuilt models with the same identifier.
+   */
+  setServerModels(models: IServerModel[]) {
+    this._servers = new Map(
+      models.map(model => [
+        model.model_id,
+        {
+          model_id: model.model_id,
+          model_url: model.baseUrl,
+          model_lib_url: '',
+          fim: model.fim,
+          server: {
+            baseUrl: Private.resolveUrl(model.baseUrl, false),
+            apiKey: model.apiKey,
+            model: model.model
+          },
+          tags:
+            model.tags && model.tags.length > 0
+              ? model.tags
+              : Private.inferTags(model.model_id, model.fim)
+        }
+      ])
+    );
+  }
+
+  /**
+   * Application config to pass to the engine.
+   */
+  get appConfig(): AppConfig {
+    return {
+      ...prebuiltAppConfig,
+      model_list: this.models()
+        .filter(record => !record.server)
+        .map(Private.toModelRecord)
+    };
+  }
+
+  /**
+   * Endpoints of models served by OpenAI-compatible servers, by model identifier.
+   */
+  get servers(): Record<string, IServerEndpoint> {
+    return Object.fromEntries(
+      [...this._servers.values()].map(record => [
+        record.model_id,
+        record.server!
+      ])
+    );
+  }
+
+  /**
+   * Fill-in-the-middle tokens of all models which support infilling, by model identifier.
+   */
+  get fim(): Record<string, IFimTokens> {
+    return Object.fromEntries(
+      this.models('fim').flatMap(record => {
+        const tokens = this.capabilities(record.model_id).fim;
+        return tokens ? [[record.model_id, tokens]] : [];
+      })
+    );
+  }
+
+  /**
+   * List models, optionally only these with given tag.
+   */
+  models(tag?: ModelTag): ITaggedModelRecord[] {
+    const models = [
+      ...this._prebuilt.filter(
+        record =>
+          !this._custom.has(record.model_id) &&
+          !this._servers.has(record.model_id)
+      ),
+      ...[...this._custom.values()].filter(
+        record => !this._servers.has(record.model_id)
+      ),
+      ...this._servers.values()
+    ];
+    return tag ? models.filter(record => record.tags.includes(tag)) : models;
+  }
+
+  /**
+   * Get record of model with given identifier.
+   */
+  get(model: string): ITaggedModelRecord | undefined {
+    return (
+      this._servers.get(model) ??
+      this._custom.get(model) ??
+      this._prebuilt.find(r => r.model_id === model)
+    );
+  }
+
+  /**
+   * Get capabilities of model, preferring these declared in custom model record.
+   *
+   * Fill-in-the-middle is only offered for models tagged with `fim`, so that
+   * it can be turned off for a model by listing its tags without `fim`.
+   */
+  capabilities(model: string): IModelCapabilities {
+    const record = this.get(model);
+    const capabilities = { ...getModelCapabilities(model) };
+    if (record?.fim) {
+      capabilities.fim = record.fim;
+    }
+    if (record && !record.tags.includes('fim')) {
+      delete capabilities.fim;
+    }
+    return capabilities;
+  }
+
+  private _prebuilt: ITaggedModelRecord[];
+  private _custom: Map<string, ITaggedModelRecord> = new Map();
+  private _servers: Map<string, ITaggedModelRecord> = new Map();
+}
+
+namespace Private {
+  /**
+   * Infer tags of model from its identifier.
+   */
+  export function inferTags(model: string, fim?: IFimTokens): ModelTag[] {
+    const tags: ModelTag[] = ['text'];
+    if (/code|coder|phi/i.test(model)) {
+      tags.push('code');
+    }
+    if (fim || getModelCapabilities(model).fim) {
+      tags.push('fim');
+    }
+    return tags;
+  }
+
+  /**
+   * Strip fields not understood by web-llm.
+   */
+  export function toModelRecord(record: ITaggedModelRecord): ModelRecord {
+    const modelRecord: ModelRecord & Partial<ITaggedModelRecord> = {
+      ...record
+    };
+    delete modelRecord.tags;
+    delete modelRecord.fim;
+    delete modelRecord.server;
+    return modelRecord;
+  }
+
+  /**
+   * Resolve URLs relative to the Jupyter server base URL.
+   */
+  export function resolveUrl(url: string, directory: boolean): string {
+    if (URLExt.isLocal(url)) {
+      url = URLExt.join(PageConfig.getBaseUrl(), url);
+    }
+    // web-llm resolves model files relative to the model URL
+    if (directory && !url.endsWith('/')) {
+      url += '/';
+    }
+    return url;
+  }
+}
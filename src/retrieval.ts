@@ -0,0 +1,553 @@
+import { PathExt } from '@jupyterlab/coreutils';
+import type { Contents } from '@jupyterlab/services';
+import type { ILanguageSyntax } from './notebook';
+import type { ITokenMeasure } from './tokenizer';
+
+/**
+ * Documents searched for snippets related to the code being completed.
+ */
+export type RetrievalScope = 'off' | 'open-documents' | 'workspace';
+
+/**
+ * Document open in the application.
+ */
+export interface IOpenDocument {
+  path: string;
+  /**
+   * Number which changes whenever the content of the document changes.
+   */
+  version: number;
+  /**
+   * Get text of the document; for notebooks, sources of the code cells.
+   */
+  text(): string;
+}
+
+/**
+ * Extensions of files which are indexed.
+ */
+const INDEXED_EXTENSIONS = new Set([
+  '.py',
+  '.ipynb',
+  '.r',
+  '.jl',
+  '.js',
+  '.ts',
+  '.jsx',
+  '.tsx',
+  '.scala',
+  '.sql',
+  '.sh'
+]);
+
+/**
+ * Maximum number of lines in a chunk.
+ */
+const CHUNK_LINES = 24;
+
+/**
+ * Number of lines before the cursor from which identifiers are searched for.
+ */
+const QUERY_LINES = 8;
+
+/**
+ * Limits on files indexed from the workspace, which is listed at most once
+ * per refresh interval (in milliseconds).
+ */
+const MAX_WORKSPACE_FILES = 100;
+const MAX_WORKSPACE_DEPTH = 2;
+const MAX_FILE_SIZE = 256 * 1024;
+const WORKSPACE_REFRESH_INTERVAL = 30_000;
+
+/**
+ * Parameters of the Okapi BM25 ranking function.
+ */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Lexical index of chunks of documents, ranked with BM25 over identifiers
+ * and their parts (split at underscores and case changes).
+ */
+export class SnippetIndex {
+  /**
+   * Replace chunks of the document at given path.
+   */
+  set(path: string, text: string) {
+    this.delete(path);
+    const chunks = Private.chunk(text).map(chunkText => {
+      const terms = new Map<string, number>();
+      let length = 0;
+      for (const term of Private.terms(chunkText)) {
+        terms.set(term, (terms.get(term) ?? 0) + 1);
+        length++;
+      }
+      return { path, text: chunkText, terms, length };
+    });
+    for (const chunk of chunks) {
+      for (const term of chunk.terms.keys()) {
+        this._documentFrequency.set(
+          term,
+          (this._documentFrequency.get(term) ?? 0) + 1
+        );
+      }
+      this._totalLength += chunk.length;
+    }
+    this._chunks.set(path, chunks);
+    this._chunkCount += chunks.length;
+  }
+
+  /**
+   * Remove chunks of the document at given path.
+   */
+  delete(path: string) {
+    for (const chunk of this._chunks.get(path) ?? []) {
+      for (const term of chunk.terms.keys()) {
+        const frequency = this._documentFrequency.get(term)! - 1;
+        if (frequency > 0) {
+          this._documentFrequency.set(term, frequency);
+        } else {
+          this._documentFrequency.delete(term);
+        }
+      }
+      this._totalLength -= chunk.length;
+      this._chunkCount--;
+    }
+    this._chunks.delete(path);
+  }
+
+  /**
+   * Get chunks best matching the terms, most relevant first.
+   *
+   * @param exclude - path of document which should not be searched
+   */
+  search(terms: string[], limit: number, exclude: string | null): ISnippet[] {
+    const query = [...new Set(terms)].filter(term =>
+      this._documentFrequency.has(term)
+    );
+    if (query.length === 0 || this._chunkCount === 0) {
+      return [];
+    }
+    const averageLength = this._totalLength / this._chunkCount;
+    const idf = new Map(
+      query.map(term => {
+        const frequency = this._documentFrequency.get(term)!;
+        return [
+          term,
+          Math.log(1 + (this._chunkCount - frequency + 0.5) / (frequency + 0.5))
+        ];
+      })
+    );
+    const scored: ISnippet[] = [];
+    for (const [path, chunks] of this._chunks) {
+      if (path === exclude) {
+        continue;
+      }
+      for (const chunk of chunks) {
+        let score = 0;
+        for (const term of query) {
+          const frequency = chunk.terms.get(term);
+          if (!frequency) {
+            continue;
+          }
+          score +=
+            (idf.get(term)! * frequency * (BM25_K1 + 1)) /
+            (frequency +
+              BM25_K1 * (1 - BM25_B + (BM25_B * chunk.length) / averageLength));
+        }
+        if (score > 0) {
+          scored.push({ path, text: chunk.text, score });
+        }
+      }
+    }
+    return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private _chunks: Map<string, Private.IChunk[]> = new Map();
+  private _chunkCount = 0;
+  private _documentFrequency: Map<string, number> = new Map();
+  private _totalLength = 0;
+}
+
+/**
+ * Chunk of a document matching a query.
+ */
+export interface ISnippet {
+  path: string;
+  text: string;
+  score: number;
+}
+
+/**
+ * Finds snippets related to the identifiers near the cursor in open
+ * documents and, optionally, in files under the directory of the current
+ * document, fetched with the Contents API.
+ *
+ * Files are indexed in the background; snippets are only returned from
+ * files indexed so far, so that completions never wait on the server.
+ */
+export class RetrievalContext {
+  constructor(protected options: RetrievalContext.IOptions) {}
+
+  /**
+   * Format snippets related to the text before the cursor as labelled
+   * blocks fitting in `budget` tokens, or return empty string.
+   */
+  async snippets(options: RetrievalContext.ISnippetOptions): Promise<string> {
+    if (options.budget <= 0) {
+      return '';
+    }
+    this._indexOpenDocuments(options.path);
+    if (options.scope === 'workspace') {
+      void this._refreshWorkspace(
+        options.path ? PathExt.dirname(options.path) : ''
+      );
+    }
+    const query = Private.terms(
+      options.prefix.split('\n').slice(-QUERY_LINES).join('\n')
+    );
+    const snippets = this._index.search(query, options.count, options.path);
+    if (snippets.length === 0) {
+      return '';
+    }
+    const blocks = snippets.map(
+      snippet =>
+        `${options.syntax.comment} ${snippet.path}\n${snippet.text}\n\n`
+    );
+    const counts = await options.measure.count(blocks);
+    let budget = options.budget;
+    let result = '';
+    for (let i = 0; i < blocks.length; i++) {
+      if (counts[i] > budget) {
+        continue;
+      }
+      budget -= counts[i];
+      // most relevant snippets are placed closest to the cursor
+      result = blocks[i] + result;
+    }
+    return result;
+  }
+
+  /**
+   * Index open documents which changed since last indexed, and forget
+   * documents which were closed (unless indexed from the workspace).
+   *
+   * @param current - path of the document being edited, which is not
+   *   searched and thus not indexed on every change
+   */
+  private _indexOpenDocuments(current: string | null) {
+    const open = new Set<string>();
+    for (const document of this.options.openDocuments()) {
+      if (!Private.isIndexed(document.path)) {
+        continue;
+      }
+      open.add(document.path);
+      if (document.path === current) {
+        continue;
+      }
+      const indexed = this._documents.get(document.path);
+      if (indexed?.source === 'open' && indexed.version === document.version) {
+        continue;
+      }
+      this._documents.set(document.path, {
+        source: 'open',
+        version: document.version,
+        modified: null
+      });
+      this._index.set(document.path, document.text());
+    }
+    for (const [path, document] of this._documents) {
+      if (document.source === 'open' && !open.has(path)) {
+        this._documents.delete(path);
+        this._index.delete(path);
+      }
+    }
+  }
+
+  /**
+   * Index files under the directory which changed since last indexed, and
+   * forget other workspace files, unless the directory was listed recently.
+   */
+  private async _refreshWorkspace(directory: string) {
+    const now = Date.now();
+    if (
+      this._refreshing ||
+      (this._lastRefresh.directory === directory &&
+        now - this._lastRefresh.time < WORKSPACE_REFRESH_INTERVAL)
+    ) {
+      return;
+    }
+    this._refreshing = true;
+    this._lastRefresh = { directory, time: now };
+    try {
+      const files = (await this._listFiles(directory, 0)).slice(
+        0,
+        MAX_WORKSPACE_FILES
+      );
+      const listed = new Set(files.map(file => file.path));
+      for (const [path, document] of this._documents) {
+        // forget files which were deleted or moved, and files from the
+        // previous directory, so that the index only covers the workspace
+        // of the current document
+        if (document.source === 'workspace' && !listed.has(path)) {
+          this._documents.delete(path);
+          this._index.delete(path);
+        }
+      }
+      for (const file of files) {
+        const indexed = this._documents.get(file.path);
+        if (indexed && indexed.modified === file.last_modified) {
+          continue;
+        }
+        if (indexed?.source === 'open') {
+          // open documents are more recent than their saved content
+          continue;
+        }
+        const text = await this._fetchText(file.path);
+        if (text === null) {
+          continue;
+        }
+        this._documents.set(file.path, {
+          source: 'workspace',
+          version: null,
+          modified: file.last_modified
+        });
+        this._index.set(file.path, text);
+      }
+    } catch (e) {
+      console.warn('Could not index workspace files', e);
+    } finally {
+      this._refreshing = false;
+    }
+  }
+
+  /**
+   * List indexed files in the directory and its subdirectories.
+   */
+  private async _listFiles(
+    directory: string,
+    depth: number
+  ): Promise<Contents.IModel[]> {
+    const listing = await this.options.contents.get(directory, {
+      content: true
+    });
+    const files: Contents.IModel[] = [];
+    for (const item of (listing.content ?? []) as Contents.IModel[]) {
+      if (item.name.startsWith('.') || Private.IGNORED.has(item.name)) {
+        continue;
+      }
+      if (item.type === 'directory') {
+        if (depth < MAX_WORKSPACE_DEPTH) {
+          files.push(...(await this._listFiles(item.path, depth + 1)));
+        }
+      } else if (
+        Private.isIndexed(item.path) &&
+        (item.size ?? 0) <= MAX_FILE_SIZE
+      ) {
+        files.push(item);
+      }
+      if (files.length >= MAX_WORKSPACE_FILES) {
+        break;
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Fetch text of a file; for notebooks, sources of the code cells.
+   */
+  private async _fetchText(path: string): Promise<string | null> {
+    try {
+      const model = await this.options.contents.get(path, { content: true });
+      if (model.type === 'notebook') {
+        return Private.notebookCode(model.content);
+      }
+      return typeof model.content === 'string' ? model.content : null;
+    } catch (e) {
+      console.warn(`Could not fetch ${path}`, e);
+      return null;
+    }
+  }
+
+  private _documents: Map<string, Private.IIndexedDocument> = new Map();
+  private _index = new SnippetIndex();
+  private _lastRefresh: { directory: string | null; time: number } = {
+    directory: null,
+    time: 0
+  };
+  private _refreshing = false;
+}
+
+export namespace RetrievalContext {
+  export interface IOptions {
+    contents: Contents.IManager;
+    /**
+     * Get documents open in the application.
+     */
+    openDocuments: () => IOpenDocument[];
+  }
+
+  export interface ISnippetOptions {
+    /**
+     * Path of the current document, which is not searched, if any.
+     */
+    path: string | null;
+    /**
+     * Text before the cursor, used to find identifiers to search for.
+     */
+    prefix: string;
+    scope: Exclude<RetrievalScope, 'off'>;
+    /**
+     * Maximum number of snippets.
+     */
+    count: number;
+    /**
+     * Number of tokens available for the snippets.
+     */
+    budget: number;
+    measure: ITokenMeasure;
+    /**
+     * Syntax of the current document, used to label snippets with comments.
+     */
+    syntax: ILanguageSyntax;
+  }
+}
+
+namespace Private {
+  export interface IChunk {
+    path: string;
+    text: string;
+    /**
+     * Frequencies of terms in the chunk.
+     */
+    terms: Map<string, number>;
+    length: number;
+  }
+
+  export interface IIndexedDocument {
+    source: 'open' | 'workspace';
+    /**
+     * Version of indexed open document.
+     */
+    version: number | null;
+    /**
+     * Last modification time of indexed workspace file.
+     */
+    modified: string | null;
+  }
+
+  /**
+   * Directories which are never indexed.
+   */
+  export const IGNORED = new Set([
+    'node_modules',
+    '__pycache__',
+    'site-packages',
+    'build',
+    'dist'
+  ]);
+
+  /**
+   * Common keywords, which do not help to find related code.
+   */
+  const STOP_WORDS = new Set([
+    'and',
+    'as',
+    'async',
+    'await',
+    'class',
+    'const',
+    'def',
+    'else',
+    'export',
+    'false',
+    'for',
+    'from',
+    'function',
+    'if',
+    'import',
+    'in',
+    'is',
+    'let',
+    'none',
+    'not',
+    'or',
+    'return',
+    'self',
+    'the',
+    'true',
+    'var',
+    'with'
+  ]);
+
+  /**
+   * Whether file at given path should be indexed.
+   */
+  export function isIndexed(path: string): boolean {
+    return INDEXED_EXTENSIONS.has(PathExt.extname(path).toLowerCase());
+  }
+
+  /**
+   * Extract search terms: identifiers and, for compound identifiers, their
+   * parts, so that `load_data` matches `loadData` and `data`.
+   */
+  export function terms(text: string): string[] {
+    const terms: string[] = [];
+    for (const [identifier] of text.matchAll(/[A-Za-z_][A-Za-z0-9_]*/g)) {
+      const parts = identifier
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .toLowerCase()
+        .split('_')
+        .filter(part => part.length > 1);
+      const whole = parts.join('_');
+      for (const term of parts.length > 1 ? [whole, ...parts] : parts) {
+        if (!STOP_WORDS.has(term)) {
+          terms.push(term);
+        }
+      }
+    }
+    return terms;
+  }
+
+  /**
+   * Split text into chunks starting at top-level definitions, with at most
+   * `CHUNK_LINES` lines each.
+   */
+  export function chunk(text: string): string[] {
+    const chunks: string[] = [];
+    let lines: string[] = [];
+    const flush = () => {
+      const chunkText = lines.join('\n').trim();
+      if (chunkText) {
+        chunks.push(chunkText);
+      }
+      lines = [];
+    };
+    for (const line of text.split('\n')) {
+      const definition =
+        /^(@|(async\s+)?(def|class|function)\b|export\b|#\s*%%)/.test(line) &&
+        // keep decorators with the definition
+        !lines[lines.length - 1]?.startsWith('@');
+      if (lines.length >= CHUNK_LINES || (lines.length > 0 && definition)) {
+        flush();
+      }
+      lines.push(line);
+    }
+    flush();
+    return chunks;
+  }
+
+  /**
+   * Join sources of code cells of a notebook.
+   */
+  export function notebookCode(content: {
+    cells?: { cell_type: string; source: string | string[] }[];
+  }): string {
+    return (content.cells ?? [])
+      .filter(cell => cell.cell_type === 'code')
+      .map(cell =>
+        Array.isArray(cell.source) ? cell.source.join('') : cell.source
+      )
+      .join('\n\n');
+  }
+}
@@ -0,0 +1,183 @@
+import { Dialog, showDialog } from '@jupyterlab/apputils';
+import { offlineBoltIcon } from '@jupyterlab/ui-components';
+import type { Message } from '@lumino/messaging';
+import { Widget } from '@lumino/widgets';
+import type { ModelRecord } from '@mlc-ai/web-llm';
+import type { IModelStatus, ModelManager, ModelState } from './manager';
+
+const STATE_LABELS: Record<ModelState, string> = {
+  'not-downloaded': 'Not downloaded',
+  cached: 'Downloaded',
+  downloading: 'Downloading',
+  compiling: 'Compiling',
+  loaded: 'Loaded',
+  failed: 'Failed'
+};
+
+/**
+ * Sidebar panel listing models with their state and cache usage, allowing
+ * to preload, unload, cancel loading of models and delete cached artifacts.
+ */
+export class ModelManagerPanel extends Widget {
+  constructor(protected options: ModelManagerPanel.IOptions) {
+    super();
+    this.id = 'jp-web-llm-model-manager';
+    this.addClass('jp-web-llm-model-manager');
+    this.title.icon = offlineBoltIcon;
+    this.title.caption = 'In-browser Language Models';
+    options.manager.changed.connect(this._onStatusChanged, this);
+  }
+
+  dispose() {
+    if (this.isDisposed) {
+      return;
+    }
+    this.options.manager.changed.disconnect(this._onStatusChanged, this);
+    super.dispose();
+  }
+
+  protected onAfterShow(msg: Message) {
+    super.onAfterShow(msg);
+    this.options.manager.refresh();
+    this._render();
+  }
+
+  private _onStatusChanged(_: ModelManager, model: string) {
+    if (!this.isVisible) {
+      return;
+    }
+    const row = this._rows.get(model);
+    const record = this.options.manager.registry.get(model);
+    if (row && record) {
+      row.replaceWith(this._renderRow(record));
+    } else {
+      this._render();
+    }
+  }
+
+  private _render() {
+    const manager = this.options.manager;
+    const header = document.createElement('div');
+    header.className = 'jp-web-llm-model-manager-header';
+    const title = document.createElement('h3');
+    title.textContent = 'Models';
+    header.append(
+      title,
+      this._button('Refresh', () => manager.refresh())
+    );
+    const list = document.createElement('ul');
+    list.className = 'jp-web-llm-model-list';
+    this._rows.clear();
+    for (const record of manager.registry.models()) {
+      list.append(this._renderRow(record));
+    }
+    this.node.replaceChildren(header, list);
+  }
+
+  private _renderRow(record: ModelRecord): HTMLElement {
+    const manager = this.options.manager;
+    const model = record.model_id;
+    const status = manager.status(model);
+    const row = document.createElement('li');
+    row.className = 'jp-web-llm-model';
+    row.dataset.state = status.state;
+
+    const name = document.createElement('div');
+    name.className = 'jp-web-llm-model-name';
+    name.textContent = model;
+
+    const details = document.createElement('div');
+    details.className = 'jp-web-llm-model-details';
+    details.textContent = [
+      Private.stateLabel(status),
+      status.cachedSize
+        ? `${Private.formatSize(status.cachedSize)} cached`
+        : '',
+      record.vram_required_MB
+        ? `${Math.round(record.vram_required_MB)} MB VRAM`
+        : ''
+    ]
+      .filter(Boolean)
+      .join(' · ');
+    if (status.error) {
+      details.title = status.error;
+    }
+
+    const actions = document.createElement('div');
+    actions.className = 'jp-web-llm-model-actions';
+    const { state } = status;
+    if (state === 'downloading' || state === 'compiling') {
+      actions.append(this._button('Cancel', () => manager.cancel(model)));
+    } else if (state === 'loaded') {
+      actions.append(this._button('Unload', () => manager.unload(model)));
+    } else {
+      actions.append(this._button('Preload', () => manager.preload(model)));
+    }
+    if (status.cachedSize || state === 'cached') {
+      actions.append(
+        this._button('Delete', () => this._confirmDelete(model), true)
+      );
+    }
+
+    row.append(name, details, actions);
+    this._rows.set(model, row);
+    return row;
+  }
+
+  private async _confirmDelete(model: string) {
+    const result = await showDialog({
+      title: 'Delete cached model',
+      body: `Delete cached weights and library of ${model} from browser storage? The model will need to be downloaded again to be used.`,
+      buttons: [Dialog.cancelButton(), Dialog.warnButton({ label: 'Delete' })]
+    });
+    if (result.button.accept) {
+      this.options.manager.deleteCache(model);
+    }
+  }
+
+  private _button(
+    label: string,
+    onClick: () => void,
+    warn = false
+  ): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className =
+      'jp-mod-styled ' + (warn ? 'jp-mod-warn' : 'jp-mod-reject');
+    button.textContent = label;
+    button.onclick = onClick;
+    return button;
+  }
+
+  private _rows: Map<string, HTMLElement> = new Map();
+}
+
+export namespace ModelManagerPanel {
+  export interface IOptions {
+    manager: ModelManager;
+  }
+}
+
+namespace Private {
+  /**
+   * Describe state of model, including progress of loading.
+   */
+  export function stateLabel(status: IModelStatus): string {
+    const label = STATE_LABELS[status.state];
+    return status.progress !== null
+      ? `${label} ${Math.round(status.progress * 100)}%`
+      : label;
+  }
+
+  /**
+   * Format size in bytes using binary units.
+   */
+  export function formatSize(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let unit = 0;
+    while (bytes >= 1024 && unit < units.length - 1) {
+      bytes /= 1024;
+      unit++;
+    }
+    return `${bytes.toFixed(unit > 1 ? 1 : 0)} ${units[unit]}`;
+  }
+}
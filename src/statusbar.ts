@@ -0,0 +1,191 @@
+import { Popup, showPopup } from '@jupyterlab/statusbar';
+import type { CommandRegistry } from '@lumino/commands';
+import { Widget } from '@lumino/widgets';
+import type { IGenerationTiming, GenerationMonitor } from './monitor';
+import type { ModelManager, ModelState } from './manager';
+
+const STATE_LABELS: Record<ModelState, string> = {
+  'not-downloaded': 'not loaded',
+  cached: 'not loaded',
+  downloading: 'downloading',
+  compiling: 'compiling',
+  loaded: 'ready',
+  failed: 'failed'
+};
+
+/**
+ * Status bar item showing the model for the current editor, its state,
+ * and throughput of the running generation.
+ *
+ * Clicking on the item opens a popup with recent latency figures and
+ * toggles for pausing suggestions.
+ */
+export class CompleterStatus extends Widget {
+  constructor(protected options: CompleterStatus.IOptions) {
+    super();
+    this.addClass('jp-web-llm-status');
+    this.node.title = 'Inline completer status';
+    this.node.addEventListener('click', () => this._togglePopup());
+    options.manager.changed.connect(this.refresh, this);
+    options.monitor.changed.connect(this.refresh, this);
+    this.refresh();
+  }
+
+  dispose() {
+    if (this.isDisposed) {
+      return;
+    }
+    this.options.manager.changed.disconnect(this.refresh, this);
+    this.options.monitor.changed.disconnect(this.refresh, this);
+    this._popup?.dispose();
+    super.dispose();
+  }
+
+  /**
+   * Update the displayed status, e.g. when the current editor changes.
+   */
+  refresh() {
+    const running = this.options.monitor.running[0];
+    const model = running?.model ?? this.options.activeModel();
+    if (!model || model === 'none') {
+      this.node.textContent = 'No completion model';
+    } else if (running) {
+      this.node.textContent = `${Private.shortName(model)}: ${Private.formatTiming(running)}`;
+    } else {
+      const state = this.options.manager.status(model).state;
+      this.node.textContent = `${Private.shortName(model)}: ${STATE_LABELS[state]}`;
+    }
+    this.node.dataset.busy = running ? 'true' : 'false';
+    if (this._popup && !this._popup.isDisposed) {
+      this._renderPopupBody();
+    }
+  }
+
+  private _togglePopup() {
+    if (this._popup && !this._popup.isDisposed) {
+      this._popup.dispose();
+      return;
+    }
+    this._popupBody = new Widget();
+    this._popupBody.addClass('jp-web-llm-status-popup');
+    this._renderPopupBody();
+    this._popup = showPopup({
+      body: this._popupBody,
+      anchor: this,
+      align: 'left',
+      hasDynamicSize: true
+    });
+  }
+
+  private _renderPopupBody() {
+    const { commands, monitor, toggles } = this.options;
+    const body = this._popupBody.node;
+
+    const heading = document.createElement('h4');
+    heading.textContent = 'Recent generations';
+    const table = document.createElement('table');
+    const header = table.createTHead().insertRow();
+    for (const label of ['Model', 'TTFT', 'Tokens/s', 'Tokens']) {
+      const cell = document.createElement('th');
+      cell.textContent = label;
+      header.append(cell);
+    }
+    const rows = table.createTBody();
+    for (const timing of [...monitor.running, ...monitor.history]) {
+      const row = rows.insertRow();
+      for (const value of [
+        Private.shortName(timing.model),
+        Private.formatMs(timing.timeToFirstToken),
+        timing.tokensPerSecond?.toFixed(1) ?? '–',
+        String(timing.completionTokens)
+      ]) {
+        row.insertCell().textContent = value;
+      }
+    }
+    const summary = document.createElement('p');
+    summary.textContent = Private.summarize(monitor.history);
+
+    const toggleList = document.createElement('div');
+    toggleList.className = 'jp-web-llm-status-toggles';
+    for (const command of toggles) {
+      const label = document.createElement('label');
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = commands.isToggled(command);
+      checkbox.disabled = !commands.isEnabled(command);
+      checkbox.onchange = () => void commands.execute(command);
+      label.append(checkbox, commands.label(command));
+      toggleList.append(label);
+    }
+
+    body.replaceChildren(heading, table, summary, toggleList);
+  }
+
+  private _popup: Popup | null = null;
+  private _popupBody = new Widget();
+}
+
+export namespace CompleterStatus {
+  export interface IOptions {
+    manager: ModelManager;
+    monitor: GenerationMonitor;
+    commands: CommandRegistry;
+    /**
+     * Get the model used in the current editor, if any.
+     */
+    activeModel: () => string | null;
+    /**
+     * Toggle commands offered in the popup.
+     */
+    toggles: string[];
+  }
+}
+
+namespace Private {
+  /**
+   * Shorten model identifier by removing the quantization suffix.
+   */
+  export function shortName(model: string): string {
+    return model.replace(/-q\d\w+(-\d+k)?$/, '');
+  }
+
+  export function formatMs(value: number | null): string {
+    return value === null ? '–' : `${Math.round(value)} ms`;
+  }
+
+  export function formatTiming(timing: IGenerationTiming): string {
+    if (timing.tokensPerSecond === null) {
+      return 'waiting for first token';
+    }
+    return `${timing.tokensPerSecond.toFixed(1)} tok/s, TTFT ${formatMs(
+      timing.timeToFirstToken
+    )}`;
+  }
+
+  /**
+   * Summarize history with median time to first token and throughput.
+   */
+  export function summarize(history: IGenerationTiming[]): string {
+    if (history.length === 0) {
+      return 'No generations yet.';
+    }
+    const median = (values: number[]) => {
+      const sorted = [...values].sort((a, b) => a - b);
+      return sorted[Math.floor(sorted.length / 2)];
+    };
+    const ttft = history
+      .map(timing => timing.timeToFirstToken)
+      .filter((value): value is number => value !== null);
+    const throughput = history
+      .map(timing => timing.tokensPerSecond)
+      .filter((value): value is number => value !== null);
+    return [
+      ttft.length ? `median TTFT ${formatMs(median(ttft))}` : '',
+      throughput.length
+        ? `median ${median(throughput).toFixed(1)} tokens/s`
+        : ''
+    ]
+      .filter(Boolean)
+      .join(', ');
+  }
+}
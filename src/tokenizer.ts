@@ -0,0 +1,123 @@
+import { PromiseDelegate } from '@lumino/coreutils';
+import type { ClientMessage, WorkerMessage } from './types';
+
+/**
+ * Measures length of text in tokens.
+ */
+export interface ITokenMeasure {
+  /**
+   * Count tokens in each of `texts`.
+   */
+  count(texts: string[]): Promise<number[]>;
+  /**
+   * Get character offsets at which consecutive tokens of `text` start.
+   */
+  offsets(text: string): Promise<number[]>;
+  /**
+   * Size of the model context window in tokens, or `null` if not known.
+   */
+  contextWindowSize(): Promise<number | null>;
+}
+
+/**
+ * Measure counting every character as a token.
+ *
+ * This is a strictly conservative proxy used when the tokenizer is not available.
+ */
+export const CHARACTER_MEASURE: ITokenMeasure = {
+  count: async texts => texts.map(text => text.length),
+  offsets: async text => [...Array(text.length).keys()],
+  contextWindowSize: async () => null
+};
+
+/**
+ * Counts tokens using tokenizers of models loaded in the worker.
+ */
+export class TokenCounter {
+  constructor(protected options: TokenCounter.IOptions) {}
+
+  /**
+   * Get measure using tokenizer of given model, falling back to characters
+   * if the tokenizer is not available.
+   */
+  measure(model: string): ITokenMeasure {
+    const request = async (texts: string[], offsets: boolean) => {
+      const reply = await this._request(model, texts, offsets);
+      if (reply.error) {
+        // models served over HTTP never have a tokenizer, so the fallback
+        // is reported once rather than on every keystroke
+        if (!this._warned.has(model)) {
+          this._warned.add(model);
+          console.warn(
+            `Could not tokenize with ${model}, counting characters instead:`,
+            reply.error.message
+          );
+        }
+        return null;
+      }
+      this._contextWindowSizes.set(model, reply.contextWindowSize);
+      return reply;
+    };
+    return {
+      count: async texts => {
+        const reply = await request(texts, false);
+        return reply ? reply.counts : CHARACTER_MEASURE.count(texts);
+      },
+      offsets: async text => {
+        const reply = await request([text], true);
+        return reply?.offsets
+          ? reply.offsets[0]
+          : CHARACTER_MEASURE.offsets(text);
+      },
+      contextWindowSize: async () => {
+        if (!this._contextWindowSizes.has(model)) {
+          await request([], false);
+        }
+        return this._contextWindowSizes.get(model) ?? null;
+      }
+    };
+  }
+
+  /**
+   * Handle reply from the worker.
+   */
+  handleReply(data: WorkerMessage.ITokenized) {
+    const delegate = this._pending.get(data.requestId);
+    if (!delegate) {
+      console.warn('Tokenization reply received but request absent');
+      return;
+    }
+    this._pending.delete(data.requestId);
+    delegate.resolve(data);
+  }
+
+  private _request(
+    model: string,
+    texts: string[],
+    offsets: boolean
+  ): Promise<WorkerMessage.ITokenized> {
+    const requestId = 'K' + ++this._requestCounter;
+    const delegate = new PromiseDelegate<WorkerMessage.ITokenized>();
+    this._pending.set(requestId, delegate);
+    this.options.postMessage({
+      action: 'tokenize',
+      model,
+      requestId,
+      texts,
+      offsets
+    });
+    return delegate.promise;
+  }
+
+  private _contextWindowSizes: Map<string, number | null> = new Map();
+  private _pending: Map<string, PromiseDelegate<WorkerMessage.ITokenized>> =
+    new Map();
+  private _requestCounter = 0;
+  private _warned: Set<string> = new Set();
+}
+
+export namespace TokenCounter {
+  export interface IOptions {
+    postMessage: (message: ClientMessage.ITokenize) => void;
+  }
+}
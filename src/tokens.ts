@@ -0,0 +1,105 @@
+import { Token } from '@lumino/coreutils';
+import type { ISignal } from '@lumino/signaling';
+import type { ChatCompletionMessageParam } from '@mlc-ai/web-llm';
+import type { IModelStatus } from './manager';
+import type { IGenerationProfile } from './profiles';
+import type { ModelTag } from './registry';
+
+/**
+ * The language model engine token.
+ */
+export const IWebLLMEngine = new Token<IWebLLMEngine>(
+  '@jupyterlab/web-llm-completer:IWebLLMEngine',
+  'Language model engine running in the browser (or on a local server), shared with the inline completer so that models are loaded only once.'
+);
+
+/**
+ * Language model engine shared between extensions.
+ *
+ * Requests run in the same worker and on the same models as the inline
+ * completer; loading a model for one extension makes it available to all.
+ */
+export interface IWebLLMEngine {
+  /**
+   * Signal emitted with model identifier when status of the model changes.
+   */
+  readonly modelChanged: ISignal<IWebLLMEngine, string>;
+
+  /**
+   * List identifiers of available models, optionally only these with given tag.
+   */
+  models(tag?: ModelTag): string[];
+
+  /**
+   * Model used for requests which do not specify one; this is the model
+   * selected for completing text, or `null` if none is selected.
+   */
+  defaultModel(): string | null;
+
+  /**
+   * Get loading state of a model.
+   */
+  status(model: string): IModelStatus;
+
+  /**
+   * Download (if needed) and compile the model, resolving once it is ready.
+   */
+  load(model: string): Promise<void>;
+
+  /**
+   * Unload the model from the GPU; this affects all extensions using it.
+   */
+  unload(model: string): void;
+
+  /**
+   * Stream reply to chat messages.
+   */
+  chat(request: IWebLLMEngine.IChatRequest): IWebLLMEngine.IGeneration;
+
+  /**
+   * Stream continuation of the prompt.
+   */
+  complete(
+    request: IWebLLMEngine.ICompletionRequest
+  ): IWebLLMEngine.IGeneration;
+}
+
+export namespace IWebLLMEngine {
+  export interface IRequest extends IGenerationProfile {
+    /**
+     * Model to use; defaults to `defaultModel()`.
+     */
+    model?: string;
+    /**
+     * Number of candidates to generate, one by default.
+     */
+    n?: number;
+  }
+
+  export interface IChatRequest extends IRequest {
+    messages: ChatCompletionMessageParam[];
+  }
+
+  export interface ICompletionRequest extends IRequest {
+    /**
+     * Prompt sent to the model as a single user message; the chat template
+     * of the model is applied as for any other message.
+     */
+    prompt: string;
+  }
+
+  /**
+   * Running generation; iterate to receive texts of all candidates as they grow.
+   */
+  export interface IGeneration extends AsyncIterable<string[]> {
+    /**
+     * Final texts of the candidates; rejects with `ModelError` if the
+     * generation fails or is cancelled.
+     */
+    readonly result: Promise<string[]>;
+    /**
+     * Stop the generation.
+     */
+    cancel(): void;
+  }
+}
@@ -0,0 +1,162 @@
+import type { ClientMessage } from './types';
+
+/**
+ * Main thread end of the transport communicating the current generation
+ * counters to the worker, which uses them to cancel outdated generations.
+ *
+ * Counters are kept separately for each lane (independent sequence of
+ * requests), so that a new request only cancels requests in its own lane.
+ */
+export interface ICounterSender {
+  /**
+   * Message initializing the receiving end in the worker.
+   */
+  readonly initMessage:
+    ClientMessage.IInitializeBuffer | ClientMessage.IInitializeChannel;
+  /**
+   * Objects to transfer with the initialization message.
+   */
+  readonly transfer: Transferable[];
+  /**
+   * Send the current counter value of `lane` to the worker.
+   */
+  send(lane: number, counter: number): void;
+}
+
+/**
+ * Worker end of the generation counter transport.
+ */
+export interface ICounterReceiver {
+  /**
+   * Get the latest counter value of `lane` known to the worker.
+   */
+  current(lane: number): number;
+  /**
+   * Record a counter value of `lane` received through another channel.
+   */
+  observe(lane: number, counter: number): void;
+}
+
+/**
+ * Whether memory can be shared with the worker; this requires cross-origin
+ * isolation (`same-origin` opener and `require-corp` embedder policies).
+ */
+export function isSharedMemoryAvailable(): boolean {
+  return (
+    typeof SharedArrayBuffer !== 'undefined' &&
+    typeof Atomics !== 'undefined' &&
+    self.crossOriginIsolated === true
+  );
+}
+
+/**
+ * Maximum number of lanes supported by the transport.
+ */
+export const MAX_LANES = 256;
+
+/**
+ * Create sender using shared memory if available, or message channel otherwise.
+ */
+export function createCounterSender(): ICounterSender {
+  return isSharedMemoryAvailable()
+    ? new SharedBufferSender()
+    : new MessageChannelSender();
+}
+
+/**
+ * Sender storing counter in a buffer shared with the worker; the worker can
+ * read it synchronously even while it is busy generating.
+ */
+export class SharedBufferSender implements ICounterSender {
+  constructor() {
+    const buffer = new SharedArrayBuffer(MAX_LANES * 4);
+    this._array = new Int32Array(buffer);
+    this.initMessage = { action: 'initializeBuffer', buffer };
+  }
+
+  readonly initMessage: ClientMessage.IInitializeBuffer;
+  readonly transfer: Transferable[] = [];
+
+  send(lane: number, counter: number) {
+    Atomics.store(this._array, lane, counter);
+    Atomics.notify(this._array, lane, 1);
+  }
+
+  private _array: Int32Array;
+}
+
+/**
+ * Sender posting counter through a dedicated message channel; the worker
+ * receives it between chunks, when the generation yields to the event loop.
+ */
+export class MessageChannelSender implements ICounterSender {
+  constructor() {
+    this._channel = new MessageChannel();
+    this.initMessage = {
+      action: 'initializeChannel',
+      port: this._channel.port2
+    };
+    this.transfer = [this._channel.port2];
+  }
+
+  readonly initMessage: ClientMessage.IInitializeChannel;
+  readonly transfer: Transferable[];
+
+  send(lane: number, counter: number) {
+    if (counter === this._lastSent.get(lane)) {
+      return;
+    }
+    this._lastSent.set(lane, counter);
+    this._channel.port1.postMessage({ lane, counter });
+  }
+
+  private _channel: MessageChannel;
+  private _lastSent: Map<number, number> = new Map();
+}
+
+/**
+ * Receiver reading counter from shared memory.
+ */
+export class SharedBufferReceiver implements ICounterReceiver {
+  constructor(buffer: SharedArrayBuffer) {
+    this._array = new Int32Array(buffer);
+  }
+
+  current(lane: number): number {
+    return Atomics.load(this._array, lane);
+  }
+
+  observe(_lane: number, _counter: number) {
+    // the shared buffer is always up to date
+  }
+
+  private _array: Int32Array;
+}
+
+/**
+ * Receiver listening for counter on a message port.
+ *
+ * Messages on the port are not ordered with respect to messages sent to the
+ * worker itself, hence counters observed in generation requests are recorded
+ * too; as counters only increase, the maximum is the latest value.
+ */
+export class MessagePortReceiver implements ICounterReceiver {
+  constructor(port: MessagePort) {
+    port.onmessage = (
+      event: MessageEvent<{ lane: number; counter: number }>
+    ) => {
+      this.observe(event.data.lane, event.data.counter);
+    };
+    port.start();
+  }
+
+  current(lane: number): number {
+    return this._current.get(lane) ?? 0;
+  }
+
+  observe(lane: number, counter: number) {
+    this._current.set(lane, Math.max(this.current(lane), counter));
+  }
+
+  private _current: Map<number, number> = new Map();
+}
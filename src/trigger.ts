@@ -0,0 +1,129 @@
+import type { CompletionHandler } from '@jupyterlab/completer';
+import type { ILanguageSyntax } from './notebook';
+
+/**
+ * Whether suggestions for a content type are requested automatically
+ * while typing or only when explicitly invoked.
+ */
+export type TriggerMode = 'automatic' | 'invoke';
+
+/**
+ * Rules deciding which automatic requests should be answered.
+ *
+ * Explicitly invoked requests are always answered.
+ */
+export interface ITriggerPolicy {
+  /**
+   * Time (in milliseconds) without new requests after which an automatic
+   * request is answered.
+   */
+  debounceDelay: number;
+  /**
+   * Minimum number of non-whitespace characters before the cursor.
+   */
+  minPrefixLength: number;
+  /**
+   * Trigger mode for each content type.
+   */
+  triggerModes: Record<'code' | 'text', TriggerMode>;
+  /**
+   * Whether to suppress automatic requests inside comments in code.
+   */
+  suppressInComments: boolean;
+  /**
+   * Whether to suppress automatic requests inside strings in code.
+   */
+  suppressInStrings: boolean;
+}
+
+/**
+ * Syntactic scope of a position in code.
+ */
+export type Scope = 'code' | 'comment' | 'string';
+
+/**
+ * Determine whether an automatic request should be suppressed (answered with
+ * no suggestions) according to the policy; does not account for debouncing.
+ */
+export function isSuppressed(
+  request: CompletionHandler.IRequest,
+  contentType: 'code' | 'text',
+  syntax: ILanguageSyntax,
+  policy: ITriggerPolicy
+): boolean {
+  if (policy.triggerModes[contentType] === 'invoke') {
+    return true;
+  }
+  const prefix = request.text.slice(0, request.offset);
+  if (prefix.replace(/\s/g, '').length < policy.minPrefixLength) {
+    return true;
+  }
+  if (
+    contentType === 'code' &&
+    (policy.suppressInComments || policy.suppressInStrings)
+  ) {
+    const scope = scopeAtEnd(prefix, syntax);
+    return (
+      (scope === 'comment' && policy.suppressInComments) ||
+      (scope === 'string' && policy.suppressInStrings)
+    );
+  }
+  return false;
+}
+
+/**
+ * Determine the scope at the end of `text` by scanning for comments and strings.
+ *
+ * This is a lexical approximation which does not handle nesting or
+ * language-specific literals such as raw strings.
+ */
+export function scopeAtEnd(text: string, syntax: ILanguageSyntax): Scope {
+  let closing: string | null = null;
+  let scope: Scope = 'code';
+  let i = 0;
+  while (i < text.length) {
+    if (scope === 'comment') {
+      if (closing === null) {
+        if (text[i] === '\n') {
+          scope = 'code';
+        }
+      } else if (text.startsWith(closing, i)) {
+        scope = 'code';
+        i += closing.length;
+        continue;
+      }
+      i++;
+    } else if (scope === 'string') {
+      if (text[i] === '\\') {
+        i += 2;
+      } else if (text.startsWith(closing!, i)) {
+        scope = 'code';
+        i += closing!.length;
+      } else if (text[i] === '\n' && closing!.length === 1 && closing !== '`') {
+        scope = 'code';
+        i++;
+      } else {
+        i++;
+      }
+    } else {
+      const block = syntax.blockComment;
+      const quote = syntax.strings.find(quote => text.startsWith(quote, i));
+      if (block && text.startsWith(block[0], i)) {
+        scope = 'comment';
+        closing = block[1];
+        i += block[0].length;
+      } else if (text.startsWith(syntax.comment, i)) {
+        scope = 'comment';
+        closing = null;
+        i += syntax.comment.length;
+      } else if (quote) {
+        scope = 'string';
+        closing = quote;
+        i += quote.length;
+      } else {
+        i++;
+      }
+    }
+  }
+  return scope;
+}
@@ -1,16 +1,58 @@
 import type {
+  AppConfig,
+  ChatCompletionMessageParam,
   ChatCompletionRequestBase,
   InitProgressReport
 } from '@mlc-ai/web-llm';
+import type { BackendName, IServerEndpoint } from './backend';
+import type { IErrorInfo } from './errors';
+import type { IPreflightReport } from './hardware';
+import type { IFimTokens, IInfill } from './models';
+
+/**
+ * Priority of a generation request; explicitly invoked requests are
+ * scheduled before automatically triggered ones.
+ */
+export type RequestPriority = 'invoke' | 'automatic';
 
 export namespace ClientMessage {
   export interface IConfigure {
     action: 'configure';
+    /**
+     * Config listing records of all known models, including custom models.
+     */
+    appConfig: AppConfig;
+    /**
+     * Backend used to load and run models.
+     */
+    backend: BackendName;
+    /**
+     * Endpoints of models served by OpenAI-compatible servers, by model identifier.
+     */
+    servers: Record<string, IServerEndpoint>;
+    /**
+     * Fill-in-the-middle tokens of models which should be loaded for infilling,
+     * by model identifier; other models are prompted with chat messages.
+     */
+    fim: Record<string, IFimTokens>;
+    /**
+     * Video memory available to the browser in MB, or zero if unknown.
+     */
+    vramLimit: number;
+    /**
+     * Time after which models without requests are unloaded in milliseconds,
+     * or zero to keep models loaded.
+     */
+    idleTimeout: number;
   }
   export interface IInitializeBuffer {
     action: 'initializeBuffer';
     buffer: SharedArrayBuffer;
   }
+  export interface IInitializeChannel {
+    action: 'initializeChannel';
+    port: MessagePort;
+  }
   export interface IInitializeModel {
     action: 'initializeModel';
     model: string;
@@ -19,22 +61,61 @@ export namespace ClientMessage {
     action: 'disposeModel';
     model: string;
   }
-  export interface IGenerate
-    extends Omit<ChatCompletionRequestBase, 'messages'> {
+  export interface ICancelLoading {
+    action: 'cancelLoading';
+    model: string;
+  }
+  export interface IQueryCache {
+    action: 'queryCache';
+    models: string[];
+  }
+  export interface IDeleteCache {
+    action: 'deleteCache';
+    model: string;
+  }
+  export interface IGenerate extends Omit<
+    ChatCompletionRequestBase,
+    'messages'
+  > {
     action: 'generate';
     model: string;
+    messages: ChatCompletionMessageParam[];
+    requestId: string;
+    priority: RequestPriority;
     idTokens: string[];
-    systemPrompt: string;
-    text: string;
+    /**
+     * Lane of the generation counter; requests in the same lane supersede each other.
+     */
+    lane: number;
     counter: number;
     generateN: number;
+    /**
+     * Text around the cursor for models loaded for fill-in-the-middle,
+     * which are prompted with it instead of `messages`.
+     */
+    infill?: IInfill;
+  }
+  export interface ITokenize {
+    action: 'tokenize';
+    model: string;
+    requestId: string;
+    texts: string[];
+    /**
+     * Whether to return character offsets of tokens in addition to counts.
+     */
+    offsets: boolean;
   }
   export type Message =
     | IConfigure
     | IInitializeBuffer
+    | IInitializeChannel
     | IInitializeModel
     | IDisposeModel
-    | IGenerate;
+    | ICancelLoading
+    | IQueryCache
+    | IDeleteCache
+    | IGenerate
+    | ITokenize;
 }
 
 export namespace WorkerMessage {
@@ -56,7 +137,22 @@ export namespace WorkerMessage {
   export interface IReady extends IModelLoadingMessage {
     status: 'ready';
   }
+  export interface IUnloaded extends IModelLoadingMessage {
+    status: 'unloaded';
+  }
+  export interface ICacheInfo extends IModelLoadingMessage {
+    status: 'cache-info';
+    /**
+     * Whether the model weights are in the browser cache.
+     */
+    cached: boolean;
+    /**
+     * Size of cached artifacts of the model in bytes.
+     */
+    size: number;
+  }
   interface ICompletionMessage {
+    requestId: string;
     idToken: string;
     output: string;
   }
@@ -66,15 +162,82 @@ export namespace WorkerMessage {
   export interface IComplete extends ICompletionMessage {
     status: 'complete';
   }
+  export interface IGenerationStats {
+    status: 'stats';
+    requestId: string;
+    model: string;
+    /**
+     * Time from receiving the request to the start of generation, including
+     * waiting for other requests and for the model to load, in milliseconds.
+     */
+    queueTime: number;
+    /**
+     * Time from the start of generation to the first chunk in milliseconds.
+     */
+    timeToFirstToken: number | null;
+    /**
+     * Number of tokens generated so far, summed over candidates.
+     */
+    completionTokens: number;
+    /**
+     * Number of tokens in the prompt, if reported by web-llm.
+     */
+    promptTokens: number | null;
+    /**
+     * Time since the start of generation in milliseconds.
+     */
+    elapsed: number;
+    done: boolean;
+  }
   export interface IGenerationError {
+    requestId: string;
     idTokens: string[];
-    error?: {
-      message: string;
-    };
+    error?: IErrorInfo;
+  }
+  export interface IInterrupted extends IGenerationError {
+    status: 'interrupted';
+  }
+  export interface ITokenized {
+    status: 'tokenized';
+    requestId: string;
+    counts: number[];
+    offsets?: number[][];
+    /**
+     * Size of the model context window in tokens, if known.
+     */
+    contextWindowSize: number | null;
+    error?: IErrorInfo;
   }
   export interface IException {
-    error?: {
-      message: string;
-    };
+    status: 'exception';
+    /**
+     * Model which failed to load or generate, if any.
+     */
+    model?: string;
+    /**
+     * Request which failed, if the error occurred during generation;
+     * errors without request occurred while loading the model.
+     */
+    requestId?: string;
+    idTokens?: string[];
+    error: IErrorInfo;
+    /**
+     * Diagnosis if the model cannot run on the device.
+     */
+    preflight?: IPreflightReport;
   }
+  export type Message =
+    | IWorkerStarted
+    | IInitiate
+    | IProgress
+    | IDone
+    | IReady
+    | IUnloaded
+    | ICacheInfo
+    | IUpdate
+    | IComplete
+    | IGenerationStats
+    | IInterrupted
+    | ITokenized
+    | IException;
 }